@@ -1,12 +1,20 @@
 import { useState, useRef, useEffect, useCallback } from "react";
 import { Send, Sparkles, FileText, ChevronDown, ChevronUp, Mic, MicOff, Volume2, Loader2 } from "lucide-react";
 import ReactMarkdown from "react-markdown";
-import { transcribeAudio, textToSpeech } from "@/lib/api";
+import { transcribeAudio, textToSpeech, type ConfidenceFactors } from "@/lib/api";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { citationLabel, locationLabel } from "@/lib/citations";
+import { VerificationMarker } from "./VerificationMarker";
+import { MakeCardButton, type NewFlashcard } from "./Flashcards";
+import type { SourceTarget } from "./DocumentViewer";
 import { toast } from "sonner";
 
 interface Citation {
+  document_id?: string;
   filename: string;
   page: string;
+  /** Line range within the document, like L12-L15 */
+  lines?: string;
 }
 
 interface ChatMessage {
@@ -14,9 +22,22 @@ interface ChatMessage {
   role: "user" | "assistant";
   content: string;
   citations?: Citation[];
-  evidence?: { quote: string; page: string; section: string; lines: string }[];
+  evidence?: {
+    quote: string;
+    document_id?: string;
+    filename?: string;
+    page: string;
+    section: string;
+    lines: string;
+    verified?: boolean;
+  }[];
   confidence?: "High" | "Medium" | "Low";
+  /** 0–1 score the confidence label was derived from */
+  confidenceScore?: number;
+  confidenceFactors?: ConfidenceFactors;
   timestamp: Date;
+  /** True while the answer is still arriving; citations follow once it's done */
+  streaming?: boolean;
 }
 
 interface ChatInterfaceProps {
@@ -24,19 +45,51 @@ interface ChatInterfaceProps {
   messages: ChatMessage[];
   onSend: (message: string) => void;
   isLoading: boolean;
+  /** Open a cited document at the citation or quote */
+  onOpenSource?: (target: SourceTarget) => void;
+  /** Save a question and its answer as a flashcard */
+  onMakeCard?: (card: NewFlashcard) => Promise<void>;
 }
 
-function ConfidenceBadge({ level }: { level: "High" | "Medium" | "Low" }) {
+const percent = (n: number) => `${Math.round(n * 100)}%`;
+
+function ConfidenceBadge({
+  level,
+  score,
+  factors,
+}: {
+  level: "High" | "Medium" | "Low";
+  score?: number;
+  factors?: ConfidenceFactors;
+}) {
   const colors = {
     High: "bg-success/10 text-success",
     Medium: "bg-warning/10 text-warning",
     Low: "bg-destructive/10 text-destructive",
   };
-  return (
+  const badge = (
     <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${colors[level]}`}>
-      {level} Confidence
+      {level} Confidence{score !== undefined && ` · ${percent(score)}`}
     </span>
   );
+  if (score === undefined || !factors) return badge;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>{badge}</TooltipTrigger>
+      <TooltipContent className="max-w-xs text-xs space-y-1.5">
+        <p>
+          Scored from how well your notes back this answer, not from the AI's own judgement.
+        </p>
+        <ul className="space-y-0.5 text-muted-foreground">
+          <li>Match to your notes: {percent(factors.retrieval)}</li>
+          <li>Quotes found in your notes: {percent(factors.verification)}</li>
+          <li>Answer backed by quotes: {percent(factors.coverage)}</li>
+          {factors.ocr < 1 && <li>Text recognition (OCR): {percent(factors.ocr)}</li>}
+        </ul>
+      </TooltipContent>
+    </Tooltip>
+  );
 }
 
 function SpeakButton({ text }: { text: string }) {
@@ -86,24 +139,72 @@ function SpeakButton({ text }: { text: string }) {
   );
 }
 
-function AssistantMessage({ msg }: { msg: ChatMessage }) {
+/**
+ * A flashcard from a grounded answer: the question on the front, the answer on
+ * the back, backed by its first verified quote (or first citation)
+ */
+function cardFromAnswer(question: string, msg: ChatMessage): NewFlashcard | null {
+  if (!msg.citations || msg.citations.length === 0) return null;
+  const quote = msg.evidence?.find((e) => e.verified) ?? msg.evidence?.[0];
+  const citation = quote?.filename
+    ? { document_id: quote.document_id, filename: quote.filename, page: quote.page, lines: quote.lines }
+    : msg.citations[0];
+  return {
+    front: question,
+    back: msg.content,
+    citation,
+    quotedText: quote?.quote,
+    quotedLines: quote?.lines,
+    verified: quote?.verified,
+    source: "chat",
+  };
+}
+
+function AssistantMessage({
+  msg,
+  question,
+  onOpenSource,
+  onMakeCard,
+}: {
+  msg: ChatMessage;
+  /** The user message this answers */
+  question?: string;
+  onOpenSource?: (target: SourceTarget) => void;
+  onMakeCard?: (card: NewFlashcard) => Promise<void>;
+}) {
   const [showEvidence, setShowEvidence] = useState(false);
+  const card = question && onMakeCard ? cardFromAnswer(question, msg) : null;
 
   return (
     <div className="space-y-3 animate-fade-in">
       <div className="prose prose-sm max-w-none text-foreground leading-relaxed [&>p]:mb-2 [&>ul]:list-disc [&>ul]:pl-4 [&>ol]:list-decimal [&>ol]:pl-4">
         <ReactMarkdown>{msg.content}</ReactMarkdown>
+        {msg.streaming && (
+          <span className="inline-block w-1.5 h-4 align-text-bottom bg-primary/60 animate-pulse" />
+        )}
       </div>
 
+      {msg.streaming && (
+        <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Finding citations...
+        </p>
+      )}
+
       {msg.citations && msg.citations.length > 0 && (
         <div className="space-y-1.5">
           <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Citations</p>
           <div className="flex flex-wrap gap-1.5">
             {msg.citations.map((c, i) => (
-              <span key={i} className="inline-flex items-center gap-1 px-2 py-1 bg-secondary rounded-md text-xs text-secondary-foreground">
+              <button
+                key={i}
+                onClick={() => onOpenSource?.({ documentId: c.document_id, filename: c.filename, page: c.page, lines: c.lines })}
+                className="inline-flex items-center gap-1 px-2 py-1 bg-secondary rounded-md text-xs text-secondary-foreground hover:bg-secondary/70 transition-colors"
+                title="Open in document viewer"
+              >
                 <FileText className="w-3 h-3" />
-                {c.filename}, {c.page}
-              </span>
+                {citationLabel(c)}
+              </button>
             ))}
           </div>
         </div>
@@ -121,11 +222,28 @@ function AssistantMessage({ msg }: { msg: ChatMessage }) {
           {showEvidence && (
             <div className="mt-2 space-y-2 animate-fade-in">
               {msg.evidence.map((e, i) => (
-                <blockquote key={i} className="pl-3 border-l-2 border-primary/30 text-xs text-muted-foreground italic">
+                <blockquote
+                  key={i}
+                  onClick={() =>
+                    typeof e !== "string" && e.filename &&
+                    onOpenSource?.({
+                      documentId: e.document_id,
+                      filename: e.filename,
+                      page: e.page,
+                      lines: e.lines,
+                      quote: e.quote,
+                    })
+                  }
+                  className={`pl-3 border-l-2 border-primary/30 text-xs text-muted-foreground italic ${
+                    typeof e !== "string" && e.filename ? "cursor-pointer hover:border-primary hover:text-foreground transition-colors" : ""
+                  }`}
+                  title={typeof e !== "string" && e.filename ? "Show in document" : undefined}
+                >
                   "{typeof e === 'string' ? e : e.quote}"
-                  {typeof e !== 'string' && (e.lines || e.page) && (
-                    <span className="block mt-1 not-italic font-medium text-muted-foreground/70">
-                      {e.lines && `Lines ${e.lines}`}{e.lines && e.page ? ' · ' : ''}{e.page && `Page ${e.page}`}
+                  {typeof e !== 'string' && (e.lines || e.page || e.section || e.verified !== undefined) && (
+                    <span className="flex flex-wrap items-center gap-x-2 mt-1 not-italic font-medium text-muted-foreground/70">
+                      <VerificationMarker verified={e.verified} />
+                      {[e.section, e.filename, locationLabel(e.filename, e.page), e.lines].filter(Boolean).join(" · ")}
                     </span>
                   )}
                 </blockquote>
@@ -135,15 +253,20 @@ function AssistantMessage({ msg }: { msg: ChatMessage }) {
         </div>
       )}
 
-      <div className="flex items-center gap-2">
-        {msg.confidence && <ConfidenceBadge level={msg.confidence} />}
-        <SpeakButton text={msg.content} />
-      </div>
+      {!msg.streaming && (
+        <div className="flex items-center gap-2">
+          {msg.confidence && (
+            <ConfidenceBadge level={msg.confidence} score={msg.confidenceScore} factors={msg.confidenceFactors} />
+          )}
+          <SpeakButton text={msg.content} />
+          {card && onMakeCard && <MakeCardButton card={card} onMakeCard={onMakeCard} />}
+        </div>
+      )}
     </div>
   );
 }
 
-export function ChatInterface({ subjectName, messages, onSend, isLoading }: ChatInterfaceProps) {
+export function ChatInterface({ subjectName, messages, onSend, isLoading, onOpenSource, onMakeCard }: ChatInterfaceProps) {
   const [input, setInput] = useState("");
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
@@ -156,9 +279,11 @@ export function ChatInterface({ subjectName, messages, onSend, isLoading }: Chat
   const chunksRef = useRef<Blob[]>([]);
   const prevMsgCountRef = useRef(messages.length);
 
-  // Auto-speak latest assistant response when mic was used
+  // Auto-speak latest assistant response when mic was used. The count only
+  // advances once loading ends, so a streamed answer is spoken when complete.
   useEffect(() => {
-    if (speakNext && !isLoading && messages.length > prevMsgCountRef.current) {
+    if (isLoading) return;
+    if (speakNext && messages.length > prevMsgCountRef.current) {
       const lastMsg = messages[messages.length - 1];
       if (lastMsg?.role === "assistant") {
         const cleanText = lastMsg.content.replace(/[#*_`>\[\]()!]/g, "").replace(/\n{2,}/g, ". ").trim();
@@ -178,6 +303,8 @@ export function ChatInterface({ subjectName, messages, onSend, isLoading }: Chat
     scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: "smooth" });
   }, [messages]);
 
+  const isStreaming = messages[messages.length - 1]?.streaming ?? false;
+
   const handleSend = () => {
     if (input.trim() && !isLoading) {
       onSend(input.trim());
@@ -263,7 +390,7 @@ export function ChatInterface({ subjectName, messages, onSend, isLoading }: Chat
           </div>
         )}
 
-        {messages.map((msg) => (
+        {messages.map((msg, i) => (
           <div
             key={msg.id}
             className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}
@@ -278,13 +405,18 @@ export function ChatInterface({ subjectName, messages, onSend, isLoading }: Chat
               {msg.role === "user" ? (
                 <p className="text-sm">{msg.content}</p>
               ) : (
-                <AssistantMessage msg={msg} />
+                <AssistantMessage
+                  msg={msg}
+                  question={messages[i - 1]?.role === "user" ? messages[i - 1].content : undefined}
+                  onOpenSource={onOpenSource}
+                  onMakeCard={onMakeCard}
+                />
               )}
             </div>
           </div>
         ))}
 
-        {(isLoading || isTranscribing) && (
+        {((isLoading && !isStreaming) || isTranscribing) && (
           <div className="flex justify-start">
             <div className="bg-card border border-border rounded-2xl rounded-bl-md px-4 py-3 shadow-sm">
               <div className="flex items-center gap-2">
@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import { Inbox, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { claimLegacySessionData, countLegacySessionData, QuotaError } from "@/lib/api";
+
+/**
+ * Offers to move subjects this browser created before accounts existed into
+ * the signed-in account. Shown until they're claimed or the banner is closed.
+ */
+export function ClaimDataBanner({ onClaimed }: { onClaimed: () => void }) {
+  const [count, setCount] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+  const [claiming, setClaiming] = useState(false);
+
+  useEffect(() => {
+    countLegacySessionData().then(setCount).catch(() => {});
+  }, []);
+
+  if (count === 0 || dismissed) return null;
+
+  const handleClaim = async () => {
+    setClaiming(true);
+    try {
+      const claimed = await claimLegacySessionData();
+      toast.success(`Added ${claimed} subject${claimed !== 1 ? "s" : ""} to your account`);
+      setCount(0);
+      onClaimed();
+    } catch (error) {
+      toast.error(error instanceof QuotaError ? error.message : "Failed to add your earlier subjects");
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-3 bg-primary/5 border border-primary/20 rounded-xl text-sm animate-fade-in">
+      <Inbox className="w-4 h-4 text-primary flex-shrink-0" />
+      <p className="flex-1 text-foreground">
+        This browser has {count} subject{count !== 1 ? "s" : ""} from before you signed in.
+      </p>
+      <button
+        onClick={handleClaim}
+        disabled={claiming}
+        className="px-3 py-1.5 rounded-lg bg-primary text-primary-foreground text-xs font-medium hover:opacity-90 transition-opacity disabled:opacity-40 flex items-center gap-1.5"
+      >
+        {claiming && <Loader2 className="w-3 h-3 animate-spin" />}
+        Add to my account
+      </button>
+      <button
+        onClick={() => setDismissed(true)}
+        className="p-1 rounded-md text-muted-foreground hover:text-foreground"
+        title="Not now"
+      >
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
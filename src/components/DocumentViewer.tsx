@@ -0,0 +1,377 @@
+import { useEffect, useRef, useState } from "react";
+import type { PDFDocumentProxy, RenderTask, TextLayer } from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import { ChevronLeft, ChevronRight, Download, FileText, Loader2 } from "lucide-react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { downloadDocument, fetchDocumentChunks, getDocumentFile, type DocumentFile } from "@/lib/api";
+import { locationLabel } from "@/lib/citations";
+import { findQuote, parseLineRange, wordsOf, type LocatedWord } from "@/lib/quote-match";
+import { toast } from "sonner";
+
+/** A cited location to open: a document, optionally narrowed to a page, lines and quote */
+interface SourceTarget {
+  documentId?: string;
+  filename: string;
+  page?: string;
+  lines?: string;
+  quote?: string;
+}
+
+interface DocumentViewerProps {
+  subjectId: string;
+  target: SourceTarget | null;
+  onClose: () => void;
+}
+
+// Shown as-is with line numbers; their lines are the document's cited lines
+const TEXT_EXTENSIONS = ["txt", "md", "markdown"];
+
+// pdf.js is large, so it's only fetched the first time a PDF is opened
+let pdfjsPromise: Promise<typeof import("pdfjs-dist")> | null = null;
+function loadPdfJs() {
+  pdfjsPromise ??= import("pdfjs-dist").then((pdfjs) => {
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+    return pdfjs;
+  });
+  return pdfjsPromise;
+}
+
+function Spinner() {
+  return (
+    <div className="flex items-center justify-center py-16">
+      <Loader2 className="w-5 h-5 text-primary animate-spin" />
+    </div>
+  );
+}
+
+/** Mark the text-layer spans a quote most likely came from and scroll to them */
+function highlightSpans(spans: HTMLElement[], quote: string) {
+  const words: LocatedWord<number>[] = spans.flatMap((span, i) =>
+    wordsOf(span.textContent || "").map((word) => ({ word, at: i }))
+  );
+  const match = findQuote(words, quote);
+  if (!match) return;
+  for (let i = match.start.at; i <= match.end.at; i++) spans[i].classList.add("cited");
+  spans[match.start.at].scrollIntoView({ block: "center", behavior: "smooth" });
+}
+
+function PdfView({ url, page, quote }: { url: string; page?: number; quote?: string }) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageNumber, setPageNumber] = useState(page || 1);
+  const [failed, setFailed] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setPdf(null);
+    setFailed(false);
+    loadPdfJs()
+      .then((pdfjs) => pdfjs.getDocument(url).promise)
+      .then((doc) => {
+        loaded = doc;
+        if (cancelled) doc.destroy();
+        else setPdf(doc);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [url]);
+
+  useEffect(() => setPageNumber(page || 1), [page]);
+
+  useEffect(() => {
+    if (!pdf || !containerRef.current || !canvasRef.current || !textLayerRef.current) return;
+    const canvas = canvasRef.current;
+    const container = textLayerRef.current;
+    const width = containerRef.current.clientWidth;
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+
+    (async () => {
+      const pdfjs = await loadPdfJs();
+      const pdfPage = await pdf.getPage(Math.min(Math.max(pageNumber, 1), pdf.numPages));
+      if (cancelled) return;
+
+      const viewport = pdfPage.getViewport({ scale: width / pdfPage.getViewport({ scale: 1 }).width });
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      canvas.style.width = `${viewport.width}px`;
+      canvas.style.height = `${viewport.height}px`;
+      renderTask = pdfPage.render({
+        canvasContext: canvas.getContext("2d")!,
+        viewport,
+        transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+      });
+
+      container.replaceChildren();
+      container.style.setProperty("--scale-factor", String(viewport.scale));
+      textLayer = new pdfjs.TextLayer({ textContentSource: await pdfPage.getTextContent(), container, viewport });
+      await Promise.all([renderTask.promise, textLayer.render()]);
+
+      // Only the cited page holds the quote
+      if (!cancelled && quote && pageNumber === page) highlightSpans(textLayer.textDivs, quote);
+    })().catch((e) => {
+      if (e?.name !== "RenderingCancelledException") console.error("PDF render failed:", e);
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [pdf, pageNumber, page, quote]);
+
+  if (failed) return <p className="p-6 text-sm text-muted-foreground">This PDF couldn't be displayed.</p>;
+
+  return (
+    <div>
+      {pdf && (
+        <div className="sticky top-0 z-10 flex items-center justify-center gap-3 py-2 bg-card/90 backdrop-blur-sm border-b border-border">
+          <button
+            onClick={() => setPageNumber((n) => Math.max(1, n - 1))}
+            disabled={pageNumber <= 1}
+            className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-secondary disabled:opacity-40"
+            title="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-xs text-muted-foreground">
+            Page {pageNumber} of {pdf.numPages}
+          </span>
+          <button
+            onClick={() => setPageNumber((n) => Math.min(pdf.numPages, n + 1))}
+            disabled={pageNumber >= pdf.numPages}
+            className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-secondary disabled:opacity-40"
+            title="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+      <div className="relative p-4">
+        {!pdf && <Spinner />}
+        {/* Measured for the page width, inside the padding */}
+        <div ref={containerRef} className="relative mx-auto shadow-sm">
+          <canvas ref={canvasRef} className="block" />
+          <div ref={textLayerRef} className="textLayer" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface NumberedLine {
+  number: number;
+  text: string;
+  page?: number | null;
+}
+
+/**
+ * Text with its document line numbers. The cited line range is highlighted;
+ * without one, the quote is searched for, and failing that the view opens at
+ * the cited page.
+ */
+function NumberedLines({
+  rows,
+  filename,
+  page,
+  lines,
+  quote,
+}: {
+  rows: NumberedLine[];
+  filename: string;
+  page?: number;
+  lines?: string;
+  quote?: string;
+}) {
+  const anchorRef = useRef<HTMLDivElement>(null);
+
+  let highlighted = parseLineRange(lines);
+  if (!highlighted && quote) {
+    const match = findQuote(
+      rows.flatMap((r) => wordsOf(r.text).map((word) => ({ word, at: r.number }))),
+      quote,
+    );
+    if (match) highlighted = [match.start.at, match.end.at];
+  }
+  const anchor = highlighted?.[0] ?? rows.find((r) => page !== undefined && r.page === page)?.number;
+
+  useEffect(() => {
+    anchorRef.current?.scrollIntoView({ block: "center" });
+  }, [rows, anchor]);
+
+  return (
+    <div className="py-3 font-mono text-xs leading-relaxed">
+      {rows.map((row, i) => (
+        <div key={`${row.number}-${i}`}>
+          {row.page != null && row.page !== rows[i - 1]?.page && (
+            <p className="px-4 pt-3 pb-1 font-sans text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+              {locationLabel(filename, row.page)}
+            </p>
+          )}
+          <div
+            ref={row.number === anchor ? anchorRef : undefined}
+            className={`flex gap-3 px-4 ${
+              highlighted && row.number >= highlighted[0] && row.number <= highlighted[1] ? "bg-warning/20" : ""
+            }`}
+          >
+            <span className="w-10 flex-shrink-0 text-right text-muted-foreground/60 select-none">{row.number}</span>
+            <span className="whitespace-pre-wrap break-words text-foreground">{row.text || " "}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TextView({ url, ...props }: { url: string; filename: string; page?: number; lines?: string; quote?: string }) {
+  const [rows, setRows] = useState<NumberedLine[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(url)
+      .then((r) => r.text())
+      .then((text) => {
+        if (!cancelled) setRows(text.split("\n").map((line, i) => ({ number: i + 1, text: line })));
+      })
+      .catch(() => {
+        if (!cancelled) setRows([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  if (!rows) return <Spinner />;
+  return <NumberedLines rows={rows} {...props} />;
+}
+
+/** Formats without an in-browser renderer show their extracted text instead */
+function ChunkView({
+  documentId,
+  ...props
+}: {
+  documentId: string;
+  filename: string;
+  page?: number;
+  lines?: string;
+  quote?: string;
+}) {
+  const [rows, setRows] = useState<NumberedLine[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchDocumentChunks(documentId)
+      .then((chunks) => {
+        let next = 1;
+        const lines = chunks.flatMap((c) => {
+          const first = c.lineStart ?? next;
+          const text = c.content.split("\n");
+          next = first + text.length;
+          return text.map((line, i) => ({ number: first + i, text: line, page: c.pageNumber }));
+        });
+        if (!cancelled) setRows(lines);
+      })
+      .catch(() => {
+        if (!cancelled) setRows([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  if (!rows) return <Spinner />;
+  if (rows.length === 0) {
+    return <p className="p-6 text-sm text-muted-foreground">No text has been extracted from this document yet.</p>;
+  }
+  return <NumberedLines rows={rows} {...props} />;
+}
+
+export function DocumentViewer({ subjectId, target, onClose }: DocumentViewerProps) {
+  const [file, setFile] = useState<DocumentFile | null>(null);
+  const [failed, setFailed] = useState(false);
+  const documentId = target?.documentId;
+  const targetFilename = target?.filename;
+
+  useEffect(() => {
+    if (!targetFilename) return;
+    let cancelled = false;
+    setFile(null);
+    setFailed(false);
+    getDocumentFile(subjectId, { documentId, filename: targetFilename })
+      .then((f) => {
+        if (!cancelled) setFile(f);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [subjectId, documentId, targetFilename]);
+
+  const filename = file?.filename ?? target?.filename ?? "";
+  const page = target?.page && /^\d+$/.test(target.page) ? Number(target.page) : undefined;
+  const extension = filename.split(".").pop()?.toLowerCase() ?? "";
+  const location = { filename, page, lines: target?.lines, quote: target?.quote };
+
+  const handleDownload = async () => {
+    if (!file) return;
+    try {
+      await downloadDocument(file.id);
+    } catch {
+      toast.error("Failed to download document");
+    }
+  };
+
+  return (
+    <Sheet open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl p-0 flex flex-col gap-0">
+        <SheetHeader className="px-5 py-4 pr-12 border-b border-border text-left space-y-1">
+          <div className="flex items-center gap-2">
+            <SheetTitle className="font-display text-base flex items-center gap-2 min-w-0 flex-1">
+              <FileText className="w-4 h-4 text-primary flex-shrink-0" />
+              <span className="truncate">{filename}</span>
+            </SheetTitle>
+            <button
+              onClick={handleDownload}
+              disabled={!file}
+              className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-secondary disabled:opacity-40"
+              title="Download original"
+            >
+              <Download className="w-4 h-4" />
+            </button>
+          </div>
+          <SheetDescription className="text-xs">
+            {[locationLabel(filename, target?.page), target?.lines].filter(Boolean).join(" · ") || "Whole document"}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto scrollbar-thin bg-secondary/30">
+          {failed ? (
+            <p className="p-6 text-sm text-muted-foreground">This document is no longer available.</p>
+          ) : !file ? (
+            <Spinner />
+          ) : extension === "pdf" ? (
+            <PdfView url={file.url} page={page} quote={target?.quote} />
+          ) : TEXT_EXTENSIONS.includes(extension) ? (
+            <TextView url={file.url} {...location} />
+          ) : (
+            <ChunkView documentId={file.id} {...location} />
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+export type { SourceTarget };
@@ -1,40 +1,106 @@
 import { useCallback, useState, useRef, useEffect } from "react";
-import { Upload, FileText, X, CheckCircle, Loader2 } from "lucide-react";
-import { Progress } from "@/components/ui/progress";
-import { fetchDocuments } from "@/lib/api";
+import {
+  Upload,
+  FileText,
+  Presentation,
+  CheckCircle,
+  Loader2,
+  RotateCw,
+  MoreHorizontal,
+  RefreshCw,
+  Pencil,
+  Download,
+  Trash2,
+  AlertCircle,
+  X,
+} from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  fetchDocuments,
+  deleteDocument,
+  renameDocument,
+  downloadDocument,
+  reprocessDocument,
+  rebuildSubjectIndex,
+  subscribeToDocuments,
+  isStalled,
+  QuotaError,
+  type DocumentStatus,
+} from "@/lib/api";
+import { isSlideDeck } from "@/lib/citations";
+import { toast } from "sonner";
+
+// Must match the extensions process-document knows how to parse
+const ACCEPTED_EXTENSIONS = [
+  ".pdf", ".pptx", ".docx", ".md", ".markdown", ".html", ".htm", ".txt",
+  ".png", ".jpg", ".jpeg", ".heic",
+];
 
 interface UploadedFile {
   id: string;
   name: string;
   size: number;
-  status: "uploading" | "processing" | "done" | "error";
-  progress?: number;
+  status: "uploading" | DocumentStatus;
+  error?: string | null;
+  chunkCount?: number;
+  updatedAt?: Date;
 }
 
 interface FileUploadProps {
   subjectId: string;
   subjectName: string;
+  /** Rejects with a QuotaError when a file was refused for going over the user's limits */
   onUpload: (files: File[]) => Promise<void>;
+  /** Called after a document is deleted so the subject's file count can refresh */
+  onDocumentsChange?: () => void;
 }
 
-export function FileUpload({ subjectId, subjectName, onUpload }: FileUploadProps) {
+export function FileUpload({ subjectId, subjectName, onUpload, onDocumentsChange }: FileUploadProps) {
   const [dragActive, setDragActive] = useState(false);
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [quotaMessage, setQuotaMessage] = useState<string | null>(null);
+  const [, setClock] = useState(0);
+
+  // Reload from DB, keeping placeholders for uploads still in flight
+  const reload = useCallback(async () => {
+    const docs = await fetchDocuments(subjectId);
+    setFiles((prev) => [...docs, ...prev.filter((f) => f.status === "uploading")]);
+  }, [subjectId]);
 
-  // Load existing files from DB
+  // Load existing files and follow their processing status live
   useEffect(() => {
     if (!subjectId) return;
-    fetchDocuments(subjectId)
-      .then((docs) => setFiles(docs))
-      .catch(() => {});
-  }, [subjectId]);
+    setFiles([]);
+    setQuotaMessage(null);
+    reload().catch(() => {});
+    return subscribeToDocuments(subjectId, () => {
+      reload().catch(() => {});
+    });
+  }, [subjectId, reload]);
+
+  // Re-render now and then while anything is in progress, so a document
+  // that stalls is offered for retry without waiting for another change
+  const inProgress = files.some((f) => f.status === "queued" || f.status === "processing");
+  useEffect(() => {
+    if (!inProgress) return;
+    const timer = setInterval(() => setClock((n) => n + 1), 60_000);
+    return () => clearInterval(timer);
+  }, [inProgress]);
 
   const handleFiles = useCallback(async (fileList: FileList | null) => {
     if (!fileList || isUploading) return;
-    const accepted = Array.from(fileList).filter(
-      (f) => f.name.endsWith(".pdf") || f.name.endsWith(".txt")
+    const accepted = Array.from(fileList).filter((f) =>
+      ACCEPTED_EXTENSIONS.some((ext) => f.name.toLowerCase().endsWith(ext))
     );
     if (accepted.length === 0) return;
 
@@ -43,54 +109,84 @@ export function FileUpload({ subjectId, subjectName, onUpload }: FileUploadProps
       name: f.name,
       size: f.size,
       status: "uploading" as const,
-      progress: 0,
     }));
 
     setFiles((prev) => [...prev, ...newFiles]);
     setIsUploading(true);
-
-    // Simulate upload progress
-    const progressInterval = setInterval(() => {
-      setFiles((prev) =>
-        prev.map((f) => {
-          const nf = newFiles.find((n) => n.id === f.id);
-          if (!nf || f.status !== "uploading") return f;
-          const newProgress = Math.min((f.progress || 0) + 15, 90);
-          return { ...f, progress: newProgress };
-        })
-      );
-    }, 300);
-
-    // Mark as processing
-    setTimeout(() => {
-      setFiles((prev) =>
-        prev.map((f) =>
-          newFiles.find((n) => n.id === f.id)
-            ? { ...f, status: "processing" as const, progress: 100 }
-            : f
-        )
-      );
-    }, 1500);
+    setQuotaMessage(null);
 
     try {
       await onUpload(accepted);
-      clearInterval(progressInterval);
-      // Reload from DB to get real IDs
-      const docs = await fetchDocuments(subjectId);
-      setFiles(docs);
-    } catch {
-      clearInterval(progressInterval);
-      setFiles((prev) =>
-        prev.map((f) =>
-          newFiles.find((n) => n.id === f.id)
-            ? { ...f, status: "error" as const, progress: 0 }
-            : f
-        )
-      );
+    } catch (error) {
+      if (error instanceof QuotaError) setQuotaMessage(error.message);
+      else toast.error("Upload failed");
     } finally {
+      setFiles((prev) => prev.filter((f) => !newFiles.some((n) => n.id === f.id)));
+      await reload().catch(() => {});
       setIsUploading(false);
     }
-  }, [onUpload, subjectId, isUploading]);
+  }, [onUpload, reload, isUploading]);
+
+  const handleReprocess = useCallback(async (id: string) => {
+    setFiles((prev) => prev.map((f) => (f.id === id ? { ...f, status: "queued" as const, error: null, updatedAt: new Date() } : f)));
+    try {
+      await reprocessDocument(id);
+    } catch {
+      toast.error("Failed to reprocess document");
+      reload().catch(() => {});
+    }
+  }, [reload]);
+
+  const handleRebuild = useCallback(async () => {
+    setFiles((prev) => prev.map((f) => (isBusy(f) ? f : { ...f, status: "queued" as const, error: null, updatedAt: new Date() })));
+    try {
+      const queued = await rebuildSubjectIndex(subjectId);
+      toast.success(`Rebuilding index for ${queued} file${queued !== 1 ? "s" : ""}`);
+    } catch {
+      toast.error("Failed to rebuild index");
+      reload().catch(() => {});
+    }
+  }, [subjectId, reload]);
+
+  const handleDelete = useCallback(async (id: string) => {
+    setFiles((prev) => prev.filter((f) => f.id !== id));
+    try {
+      await deleteDocument(id);
+      onDocumentsChange?.();
+    } catch {
+      toast.error("Failed to delete document");
+      reload().catch(() => {});
+    }
+  }, [reload, onDocumentsChange]);
+
+  const startRename = useCallback((file: UploadedFile) => {
+    setRenamingId(file.id);
+    setRenameValue(file.name.replace(/\.[^.]+$/, ""));
+  }, []);
+
+  const commitRename = useCallback(async () => {
+    const id = renamingId;
+    setRenamingId(null);
+    if (!id || !renameValue.trim()) return;
+    try {
+      const filename = await renameDocument(id, renameValue);
+      setFiles((prev) => prev.map((f) => (f.id === id ? { ...f, name: filename } : f)));
+    } catch {
+      toast.error("Failed to rename document");
+    }
+  }, [renamingId, renameValue]);
+
+  const handleDownload = useCallback(async (id: string) => {
+    try {
+      await downloadDocument(id);
+    } catch {
+      toast.error("Failed to download document");
+    }
+  }, []);
+
+  const isBusy = (file: UploadedFile) =>
+    file.status === "uploading" ||
+    ((file.status === "queued" || file.status === "processing") && !isStalled(file));
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -125,7 +221,7 @@ export function FileUpload({ subjectId, subjectName, onUpload }: FileUploadProps
           ref={inputRef}
           type="file"
           multiple
-          accept=".pdf,.txt"
+          accept={ACCEPTED_EXTENSIONS.join(",")}
           onChange={(e) => handleFiles(e.target.files)}
           className="hidden"
         />
@@ -133,34 +229,128 @@ export function FileUpload({ subjectId, subjectName, onUpload }: FileUploadProps
         <p className="text-xs font-medium text-foreground">
           Drop files or <span className="text-primary">browse</span>
         </p>
-        <p className="text-[10px] text-muted-foreground mt-0.5">PDF or TXT</p>
+        <p className="text-[10px] text-muted-foreground mt-0.5">PDF, slides, Word, Markdown, HTML, TXT or photos</p>
       </div>
 
+      {quotaMessage && (
+        <div className="flex items-start gap-2 px-2.5 py-2 rounded-lg bg-destructive/10 text-destructive text-[11px]">
+          <AlertCircle className="w-3.5 h-3.5 flex-shrink-0 mt-px" />
+          <p className="flex-1">{quotaMessage}</p>
+          <button onClick={() => setQuotaMessage(null)} className="hover:opacity-70" title="Dismiss">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+            Files ({files.length})
+          </span>
+          <button
+            onClick={handleRebuild}
+            disabled={isUploading || files.every(isBusy)}
+            className="flex items-center gap-1 text-[10px] text-muted-foreground hover:text-primary disabled:opacity-40 transition-colors"
+            title="Re-extract and re-index every file in this subject"
+          >
+            <RefreshCw className="w-3 h-3" />
+            Rebuild index
+          </button>
+        </div>
+      )}
+
       {files.length > 0 && (
         <div className="space-y-1.5 max-h-40 overflow-y-auto scrollbar-thin">
           {files.map((file) => (
             <div key={file.id} className="space-y-1">
               <div className="flex items-center gap-2 px-2.5 py-1.5 bg-card rounded-lg border border-border">
-                <FileText className="w-3.5 h-3.5 text-muted-foreground flex-shrink-0" />
-                <span className="text-xs text-foreground truncate flex-1">{file.name}</span>
+                {isSlideDeck(file.name) ? (
+                  <Presentation className="w-3.5 h-3.5 text-muted-foreground flex-shrink-0" aria-label="Slides" />
+                ) : (
+                  <FileText className="w-3.5 h-3.5 text-muted-foreground flex-shrink-0" />
+                )}
+                {renamingId === file.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename();
+                      if (e.key === "Escape") setRenamingId(null);
+                    }}
+                    className="flex-1 min-w-0 px-1 py-0.5 rounded bg-secondary text-xs text-foreground border border-border focus:outline-none focus:ring-1 focus:ring-primary/40"
+                  />
+                ) : (
+                  <span className="text-xs text-foreground truncate flex-1">{file.name}</span>
+                )}
                 <span className="text-[10px] text-muted-foreground">
                   {(file.size / 1024).toFixed(0)}KB
                 </span>
                 {file.status === "uploading" && (
                   <Loader2 className="w-3.5 h-3.5 text-primary animate-spin" />
                 )}
-                {file.status === "processing" && (
-                  <span className="text-[10px] text-warning font-medium">Processing…</span>
+                {file.status === "queued" && !isStalled(file) && (
+                  <span className="text-[10px] text-muted-foreground font-medium">Queued</span>
+                )}
+                {file.status === "processing" && !isStalled(file) && (
+                  <span className="flex items-center gap-1 text-[10px] text-warning font-medium">
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    Processing…
+                  </span>
                 )}
-                {file.status === "done" && (
-                  <CheckCircle className="w-3.5 h-3.5 text-success" />
+                {file.status === "ready" && (
+                  <span title={`${file.chunkCount} chunks indexed`}>
+                    <CheckCircle className="w-3.5 h-3.5 text-success" />
+                  </span>
                 )}
-                {file.status === "error" && (
-                  <span className="text-[10px] text-destructive font-medium">Error</span>
+                {(file.status === "failed" || isStalled(file)) && (
+                  <button
+                    onClick={() => handleReprocess(file.id)}
+                    className="flex items-center gap-1 text-[10px] text-destructive font-medium hover:underline"
+                  >
+                    <RotateCw className="w-3 h-3" />
+                    Retry
+                  </button>
+                )}
+                {file.status !== "uploading" && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger
+                      className="text-muted-foreground hover:text-foreground rounded p-0.5"
+                      aria-label={`Actions for ${file.name}`}
+                    >
+                      <MoreHorizontal className="w-3.5 h-3.5" />
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onSelect={() => startRename(file)}>
+                        <Pencil className="w-3.5 h-3.5 mr-2" />
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => handleDownload(file.id)}>
+                        <Download className="w-3.5 h-3.5 mr-2" />
+                        Download
+                      </DropdownMenuItem>
+                      <DropdownMenuItem disabled={isBusy(file)} onSelect={() => handleReprocess(file.id)}>
+                        <RefreshCw className="w-3.5 h-3.5 mr-2" />
+                        Reprocess
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        onSelect={() => handleDelete(file.id)}
+                        className="text-destructive focus:text-destructive"
+                      >
+                        <Trash2 className="w-3.5 h-3.5 mr-2" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 )}
               </div>
-              {(file.status === "uploading" || file.status === "processing") && (
-                <Progress value={file.progress || 0} className="h-1" />
+              {file.status === "failed" && (
+                <p className="px-2.5 text-[10px] text-destructive">{file.error || "Processing failed"}</p>
+              )}
+              {isStalled(file) && (
+                <p className="px-2.5 text-[10px] text-destructive">Processing stopped without finishing</p>
               )}
             </div>
           ))}
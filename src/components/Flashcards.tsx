@@ -0,0 +1,338 @@
+import { useCallback, useEffect, useState } from "react";
+import { Layers, RotateCcw, Trash2, CheckCircle, Sparkles, Plus, Check } from "lucide-react";
+import { toast } from "sonner";
+import { fetchFlashcards, generateFlashcards, reviewFlashcard, deleteFlashcard } from "@/lib/api";
+import { sourceOf } from "@/lib/citations";
+import { schedule, isDue, GRADE_QUALITY, type ReviewGrade } from "@/lib/sm2";
+import { CitationChip, QuotedText, type StudyCitation } from "./StudySources";
+import type { SourceTarget } from "./DocumentViewer";
+
+type FlashcardSource = "generated" | "chat" | "short_answer";
+
+interface Flashcard {
+  id: string;
+  front: string;
+  back: string;
+  citation?: StudyCitation;
+  quotedText?: string;
+  quotedLines?: string;
+  /** Whether quotedText was found in the notes */
+  verified?: boolean;
+  source: FlashcardSource;
+  ease: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: Date;
+  lastReviewedAt: Date | null;
+}
+
+/** A card made by hand from a chat answer or study question */
+type NewFlashcard = Pick<Flashcard, "front" | "back" | "citation" | "quotedText" | "quotedLines" | "verified" | "source">;
+
+interface FlashcardsProps {
+  subjectId: string;
+  subjectName: string;
+  /** Open a cited document at the citation or quote */
+  onOpenSource?: (target: SourceTarget) => void;
+}
+
+const GRADES: { grade: ReviewGrade; label: string; style: string }[] = [
+  { grade: "again", label: "Again", style: "bg-destructive/10 text-destructive hover:bg-destructive/20" },
+  { grade: "hard", label: "Hard", style: "bg-warning/10 text-warning hover:bg-warning/20" },
+  { grade: "good", label: "Good", style: "bg-success/10 text-success hover:bg-success/20" },
+  { grade: "easy", label: "Easy", style: "bg-primary/10 text-primary hover:bg-primary/20" },
+];
+
+function formatInterval(days: number) {
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
+
+function formatDue(card: Flashcard, now: Date) {
+  if (isDue(card, now)) return "Due now";
+  const days = Math.ceil((card.dueAt.getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+  return `Due in ${formatInterval(days)}`;
+}
+
+const byDueDate = (a: Flashcard, b: Flashcard) => a.dueAt.getTime() - b.dueAt.getTime();
+
+/** Adds a card made from a chat answer or study question; disables itself once added */
+export function MakeCardButton({ card, onMakeCard }: { card: NewFlashcard; onMakeCard: (card: NewFlashcard) => Promise<void> }) {
+  const [state, setState] = useState<"idle" | "saving" | "made">("idle");
+
+  const handleClick = () => {
+    setState("saving");
+    onMakeCard(card)
+      .then(() => setState("made"))
+      .catch(() => setState("idle"));
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={state !== "idle"}
+      className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors disabled:hover:bg-transparent"
+      title="Add to this subject's flashcards"
+    >
+      {state === "made" ? <Check className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+      {state === "made" ? "Card made" : "Make card"}
+    </button>
+  );
+}
+
+/** One card of a review session: front first, then the answer with grade buttons */
+function ReviewCard({
+  card,
+  remaining,
+  saving,
+  onGrade,
+  onOpenSource,
+}: {
+  card: Flashcard;
+  remaining: number;
+  saving: boolean;
+  onGrade: (grade: ReviewGrade) => void;
+  onOpenSource?: (target: SourceTarget) => void;
+}) {
+  const [flipped, setFlipped] = useState(false);
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-4 md:p-6 space-y-4 animate-fade-in">
+      <p className="text-xs text-muted-foreground">{remaining} card{remaining !== 1 ? "s" : ""} left</p>
+      <p className="text-base font-medium text-foreground leading-relaxed">{card.front}</p>
+
+      {!flipped ? (
+        <button
+          onClick={() => setFlipped(true)}
+          className="w-full px-4 py-3 rounded-lg bg-primary text-primary-foreground text-sm font-medium hover:opacity-90 transition-opacity min-h-[44px]"
+        >
+          Show answer
+        </button>
+      ) : (
+        <div className="space-y-4 animate-fade-in">
+          <div className="text-sm text-foreground bg-secondary/50 rounded-lg p-3 space-y-2">
+            <p>{card.back}</p>
+            {card.citation && (
+              <>
+                <QuotedText
+                  text={card.quotedText}
+                  lines={card.quotedLines}
+                  verified={card.verified}
+                  onOpen={
+                    onOpenSource &&
+                    (() => onOpenSource(sourceOf(card.citation!, card.quotedText, card.quotedLines)))
+                  }
+                />
+                <CitationChip citation={card.citation} onOpen={onOpenSource} />
+              </>
+            )}
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {GRADES.map(({ grade, label, style }) => (
+              <button
+                key={grade}
+                disabled={saving}
+                onClick={() => onGrade(grade)}
+                className={`flex flex-col items-center px-2 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-40 min-h-[44px] ${style}`}
+              >
+                {label}
+                <span className="text-[10px] font-normal opacity-80">
+                  {formatInterval(schedule(card, GRADE_QUALITY[grade]).intervalDays)}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function Flashcards({ subjectId, subjectName, onOpenSource }: FlashcardsProps) {
+  const [deck, setDeck] = useState<Flashcard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [topic, setTopic] = useState("");
+  const [isGenerating, setIsGenerating] = useState(false);
+  // Cards still to review this session; "again" puts a card back at the end
+  const [queue, setQueue] = useState<Flashcard[] | null>(null);
+  const [reviewed, setReviewed] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  const loadDeck = useCallback(() => {
+    setLoading(true);
+    fetchFlashcards(subjectId)
+      .then(setDeck)
+      .catch(() => toast.error("Failed to load flashcards"))
+      .finally(() => setLoading(false));
+  }, [subjectId]);
+
+  useEffect(() => {
+    setQueue(null);
+    loadDeck();
+  }, [loadDeck]);
+
+  const now = new Date();
+  const due = deck.filter((c) => isDue(c, now));
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const cards = await generateFlashcards(subjectId, topic.trim() || undefined);
+      if (cards.length === 0) {
+        toast.error("Upload and process some notes before generating cards");
+        return;
+      }
+      setDeck((prev) => [...prev, ...cards].sort(byDueDate));
+      setTopic("");
+      toast.success(`Added ${cards.length} card${cards.length !== 1 ? "s" : ""}`);
+    } catch {
+      toast.error("Failed to generate flashcards");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const startReview = () => {
+    setReviewed(0);
+    setQueue(due);
+  };
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!queue || queue.length === 0) return;
+    const [card, ...rest] = queue;
+    setSaving(true);
+    try {
+      const updated = await reviewFlashcard(card, grade);
+      setDeck((prev) => prev.map((c) => (c.id === updated.id ? updated : c)).sort(byDueDate));
+      setQueue(grade === "again" ? [...rest, updated] : rest);
+      setReviewed((n) => n + 1);
+    } catch {
+      toast.error("Failed to save review");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteFlashcard(id);
+      setDeck((prev) => prev.filter((c) => c.id !== id));
+      setQueue((prev) => prev && prev.filter((c) => c.id !== id));
+    } catch {
+      toast.error("Failed to delete card");
+    }
+  };
+
+  if (queue) {
+    return (
+      <div className="h-full overflow-y-auto scrollbar-thin">
+        <div className="p-4 md:p-6 space-y-4 max-w-2xl mx-auto">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="font-display text-lg font-semibold text-foreground">Review: {subjectName}</h2>
+            <button
+              onClick={() => setQueue(null)}
+              className="px-3 py-2 rounded-lg bg-secondary text-secondary-foreground text-sm font-medium hover:bg-muted transition-colors min-h-[44px]"
+            >
+              {queue.length === 0 ? "Back to deck" : "End review"}
+            </button>
+          </div>
+
+          {queue.length > 0 ? (
+            <ReviewCard
+              key={`${queue[0].id}:${reviewed}`}
+              card={queue[0]}
+              remaining={queue.length}
+              saving={saving}
+              onGrade={handleGrade}
+              onOpenSource={onOpenSource}
+            />
+          ) : (
+            <div className="bg-card border border-border rounded-xl p-6 flex flex-col items-center text-center animate-fade-in">
+              <CheckCircle className="w-8 h-8 text-success mb-3" />
+              <p className="text-sm font-semibold text-foreground">All caught up</p>
+              <p className="text-xs text-muted-foreground">
+                {reviewed} review{reviewed !== 1 ? "s" : ""} done. Come back when more cards are due.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto scrollbar-thin">
+      <div className="p-4 md:p-6 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="font-display text-lg font-semibold text-foreground">Flashcards: {subjectName}</h2>
+            <p className="text-xs text-muted-foreground">
+              {deck.length} card{deck.length !== 1 ? "s" : ""} · {due.length} due
+            </p>
+          </div>
+          <button
+            onClick={startReview}
+            disabled={due.length === 0}
+            className="flex items-center gap-1.5 px-4 py-2 rounded-lg bg-primary text-primary-foreground text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-40 min-h-[44px]"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Review due cards ({due.length})
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            value={topic}
+            onChange={(e) => setTopic(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && !isGenerating && handleGenerate()}
+            placeholder="Topic (optional)"
+            className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-secondary border border-border text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/30 min-h-[44px]"
+          />
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="flex items-center gap-1.5 px-4 py-2 rounded-lg bg-accent text-accent-foreground text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-40 min-h-[44px]"
+          >
+            <Sparkles className="w-4 h-4" />
+            {isGenerating ? "Generating..." : "Generate cards"}
+          </button>
+        </div>
+
+        {loading ? null : deck.length === 0 ? (
+          <div className="flex flex-col items-center text-center py-10 animate-fade-in">
+            <div className="w-16 h-16 rounded-2xl bg-accent/10 flex items-center justify-center mb-4">
+              <Layers className="w-8 h-8 text-accent" />
+            </div>
+            <p className="text-sm text-muted-foreground max-w-sm">
+              Generate cards from your {subjectName} notes, or make them from chat answers and short-answer questions.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {deck.map((card) => (
+              <div key={card.id} className="flex items-start gap-3 bg-card border border-border rounded-xl p-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground">{card.front}</p>
+                  <p className="text-xs text-muted-foreground line-clamp-2">{card.back}</p>
+                </div>
+                <span className={`text-xs flex-shrink-0 ${isDue(card, now) ? "text-primary font-medium" : "text-muted-foreground"}`}>
+                  {formatDue(card, now)}
+                </span>
+                <button
+                  onClick={() => handleDelete(card.id)}
+                  className="p-1 rounded text-muted-foreground hover:text-destructive transition-colors flex-shrink-0"
+                  title="Delete card"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export type { Flashcard, FlashcardSource, NewFlashcard };
@@ -0,0 +1,96 @@
+import { RotateCcw, ListX, List, Trophy } from "lucide-react";
+
+/** One sitting of a study set's multiple-choice questions */
+interface QuizRun {
+  id: string;
+  startedAt: Date;
+  answered: number;
+  correct: number;
+  timeTakenMs: number;
+}
+
+interface QuizSummaryProps {
+  correct: number;
+  total: number;
+  /** Earlier runs of the set, newest first; may include the current one */
+  runs: QuizRun[];
+  currentRunId: string;
+  reviewing: boolean;
+  onRetake: () => void;
+  onToggleReview: () => void;
+}
+
+function formatDuration(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/** Score for a finished run, with retake, mistake review and earlier attempts */
+export function QuizSummary({
+  correct,
+  total,
+  runs,
+  currentRunId,
+  reviewing,
+  onRetake,
+  onToggleReview,
+}: QuizSummaryProps) {
+  const percent = total > 0 ? Math.round((correct / total) * 100) : 0;
+  const wrong = total - correct;
+  const earlier = runs.filter((r) => r.id !== currentRunId);
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-4 md:p-5 space-y-4 animate-fade-in">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center flex-shrink-0">
+          <Trophy className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-foreground">
+            You scored {correct}/{total} ({percent}%)
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {wrong === 0 ? "Every answer correct." : `${wrong} question${wrong !== 1 ? "s" : ""} to go over.`}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={onRetake}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-primary text-primary-foreground text-xs font-medium hover:opacity-90 transition-opacity min-h-[36px]"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+          Retake
+        </button>
+        {wrong > 0 && (
+          <button
+            onClick={onToggleReview}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-secondary text-secondary-foreground text-xs font-medium hover:bg-muted transition-colors min-h-[36px]"
+          >
+            {reviewing ? <List className="w-3.5 h-3.5" /> : <ListX className="w-3.5 h-3.5" />}
+            {reviewing ? "Show all questions" : `Review mistakes (${wrong})`}
+          </button>
+        )}
+      </div>
+
+      {earlier.length > 0 && (
+        <div className="space-y-1.5">
+          <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">Earlier attempts</p>
+          {earlier.map((run) => (
+            <div key={run.id} className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{run.startedAt.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}</span>
+              <span>
+                <span className="font-medium text-foreground">{run.correct}/{run.answered}</span>
+                {" · "}
+                {formatDuration(run.timeTakenMs)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export type { QuizRun };
@@ -1,18 +1,32 @@
-import { useState } from "react";
-import { CheckCircle, XCircle, ChevronDown, ChevronUp, FileText, Sparkles, Quote } from "lucide-react";
-
-function ConfidenceBadge({ level }: { level: "High" | "Medium" | "Low" }) {
-  const colors = {
-    High: "bg-success/10 text-success",
-    Medium: "bg-warning/10 text-warning",
-    Low: "bg-destructive/10 text-destructive",
-  };
-  return (
-    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${colors[level]}`}>
-      {level}
-    </span>
-  );
-}
+import { useCallback, useEffect, useRef, useState } from "react";
+import { CheckCircle, XCircle, ChevronDown, ChevronUp, Sparkles, History, ListX } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { fetchStudySets, fetchQuizRuns, recordQuizAnswer, gradeShortAnswer, type RetrievalScore } from "@/lib/api";
+import { sourceOf } from "@/lib/citations";
+import { QuizSummary, type QuizRun } from "./QuizSummary";
+import { CitationChip, ConfidenceBadge, QuotedText, RetrievalSources, type StudyCitation } from "./StudySources";
+import { MakeCardButton, type NewFlashcard } from "./Flashcards";
+import {
+  AnswerExplanation,
+  TrueFalseCard,
+  ClozeCard,
+  MatchingCard,
+  OrderingCard,
+  type TrueFalse,
+  type Cloze,
+  type Matching,
+  type Ordering,
+  type QuizAnswer,
+} from "./StudyQuestionCards";
+import { StudyOptionsForm, type Difficulty, type StudyOptions } from "./StudyOptionsForm";
+import type { SourceTarget } from "./DocumentViewer";
 
 interface MCQOption {
   label: string;
@@ -25,49 +39,173 @@ interface MCQ {
   options: MCQOption[];
   correctAnswer: string;
   explanation: string;
-  citation: { filename: string; page: string };
+  citation: StudyCitation;
   confidence: "High" | "Medium" | "Low";
   quotedText?: string;
   quotedLines?: string;
+  /** Whether quotedText was found in the notes */
+  verified?: boolean;
 }
 
 interface ShortAnswer {
   id: string;
   question: string;
   modelAnswer: string;
-  citation: { filename: string; page: string };
+  citation: StudyCitation;
   confidence: "High" | "Medium" | "Low";
   quotedText?: string;
   quotedLines?: string;
+  /** Whether quotedText was found in the notes */
+  verified?: boolean;
+}
+
+/** A quote from the notes backing a grade, located in them when verified */
+interface GradeEvidence {
+  quote: string;
+  document_id?: string;
+  filename?: string;
+  page?: string;
+  lines?: string;
+  verified?: boolean;
+}
+
+/** AI grade of a short answer against the model answer and the notes */
+interface ShortAnswerGrade {
+  /** 0–100 */
+  score: number;
+  feedback: string;
+  /** Key points of the model answer that were missed or wrong */
+  missedPoints: string[];
+  evidence: GradeEvidence[];
+}
+
+/** A saved run of the study generator */
+interface StudySet {
+  id: string;
+  topic: string | null;
+  /** Null for sets generated before difficulty could be chosen */
+  difficulty: Difficulty | null;
+  /** Documents the set was drawn from; null means the whole subject */
+  documentIds: string[] | null;
+  createdAt: Date;
+  questionCount: number;
+}
+
+type QuestionType = "mcq" | "short_answer" | "true_false" | "cloze" | "matching" | "ordering";
+
+interface StudySetContent {
+  set: StudySet;
+  mcqs: MCQ[];
+  shortAnswers: ShortAnswer[];
+  trueFalse: TrueFalse[];
+  cloze: Cloze[];
+  matching: Matching[];
+  ordering: Ordering[];
+  /** The chunks the set was generated from; only known for a set just generated */
+  retrieval?: RetrievalScore[];
 }
 
 interface StudyModeProps {
+  subjectId: string;
   subjectName: string;
+  /** The set being shown, if any */
+  studySet?: StudySet;
   mcqs: MCQ[];
   shortAnswers: ShortAnswer[];
-  onGenerate: () => void;
+  trueFalse: TrueFalse[];
+  cloze: Cloze[];
+  matching: Matching[];
+  ordering: Ordering[];
+  /** The chunks the set was generated from, when known */
+  retrieval?: RetrievalScore[];
+  onGenerate: (options: StudyOptions) => void;
+  /** Reopen an earlier set */
+  onOpenSet: (setId: string) => void;
   isGenerating: boolean;
+  /** Open a cited document at the citation or quote */
+  onOpenSource?: (target: SourceTarget) => void;
+  /** Save a short-answer question and its model answer as a flashcard */
+  onMakeCard?: (card: NewFlashcard) => Promise<void>;
+}
+
+type OpenSource = StudyModeProps["onOpenSource"];
+
+function formatSetDate(date: Date) {
+  return date.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+/** Topic, difficulty and document scope of a set, for its header and picker entry */
+function setDetails(set: StudySet): string[] {
+  const details: string[] = [];
+  if (set.topic) details.push(set.topic);
+  if (set.difficulty) details.push(set.difficulty[0].toUpperCase() + set.difficulty.slice(1));
+  if (set.documentIds) details.push(`${set.documentIds.length} file${set.documentIds.length !== 1 ? "s" : ""}`);
+  return details;
 }
 
-function QuotedText({ text, lines }: { text?: string; lines?: string }) {
-  if (!text) return null;
+/** Earlier sets for the subject, newest first, to switch between */
+function StudySetPicker({
+  subjectId,
+  activeSetId,
+  onOpenSet,
+}: {
+  subjectId: string;
+  activeSetId?: string;
+  onOpenSet: (setId: string) => void;
+}) {
+  const [sets, setSets] = useState<StudySet[]>([]);
+
+  // A newly generated set changes the active id, so the list refreshes with it
+  useEffect(() => {
+    fetchStudySets(subjectId).then(setSets).catch(() => {});
+  }, [subjectId, activeSetId]);
+
+  if (sets.length === 0) return null;
+
   return (
-    <blockquote className="pl-3 border-l-2 border-primary/30 text-xs text-muted-foreground italic mt-2">
-      <Quote className="w-3 h-3 inline mr-1 opacity-50" />
-      "{text}"
-      {lines && (
-        <span className="block mt-1 not-italic font-medium text-muted-foreground/70">
-          Lines {lines}
-        </span>
-      )}
-    </blockquote>
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-secondary text-secondary-foreground text-sm font-medium hover:bg-muted transition-colors min-h-[44px]">
+          <History className="w-4 h-4" />
+          Previous sets ({sets.length})
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64 max-h-80 overflow-y-auto">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Saved study sets</DropdownMenuLabel>
+        {sets.map((set) => (
+          <DropdownMenuItem
+            key={set.id}
+            onClick={() => onOpenSet(set.id)}
+            className={`flex flex-col items-start gap-0.5 ${set.id === activeSetId ? "bg-primary/10" : ""}`}
+          >
+            <span className="text-sm">{formatSetDate(set.createdAt)}</span>
+            <span className="text-xs text-muted-foreground truncate max-w-full">
+              {[`${set.questionCount} question${set.questionCount !== 1 ? "s" : ""}`, ...setDetails(set)].join(" · ")}
+            </span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
   );
 }
 
-function MCQCard({ mcq, index }: { mcq: MCQ; index: number }) {
-  const [selected, setSelected] = useState<string | null>(null);
-  const [showExplanation, setShowExplanation] = useState(false);
-  const answered = selected !== null;
+function MCQCard({
+  mcq,
+  index,
+  selected,
+  onSelect,
+  defaultShowExplanation = false,
+  onOpenSource,
+}: {
+  mcq: MCQ;
+  index: number;
+  /** The option chosen in the current run, if answered */
+  selected?: string;
+  onSelect: (label: string) => void;
+  defaultShowExplanation?: boolean;
+  onOpenSource?: OpenSource;
+}) {
+  const answered = selected !== undefined;
 
   return (
     <div className="bg-card border border-border rounded-xl p-4 md:p-5 space-y-3">
@@ -93,7 +231,7 @@ function MCQCard({ mcq, index }: { mcq: MCQ; index: number }) {
             <button
               key={opt.label}
               disabled={answered}
-              onClick={() => setSelected(opt.label)}
+              onClick={() => onSelect(opt.label)}
               className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg border text-left text-sm transition-all min-h-[44px] ${optStyle}`}
             >
               <span className={`flex-shrink-0 w-6 h-6 rounded-md flex items-center justify-center text-xs font-semibold ${
@@ -112,35 +250,85 @@ function MCQCard({ mcq, index }: { mcq: MCQ; index: number }) {
         })}
       </div>
 
-      {answered && (
-        <div className="pl-10 space-y-2 animate-fade-in">
-          <button
-            onClick={() => setShowExplanation(!showExplanation)}
-            className="flex items-center gap-1 text-xs font-medium text-primary hover:underline"
-          >
-            {showExplanation ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
-            Explanation
-          </button>
-          {showExplanation && (
-            <div className="text-xs text-muted-foreground bg-secondary/50 rounded-lg p-3 animate-fade-in space-y-2">
-              <p>{mcq.explanation}</p>
-              <QuotedText text={mcq.quotedText} lines={mcq.quotedLines} />
-              <div className="flex items-center gap-2">
-                <span className="inline-flex items-center gap-1 px-1.5 py-0.5 bg-card rounded text-xs">
-                  <FileText className="w-2.5 h-2.5" /> {mcq.citation.filename}, p.{mcq.citation.page}
-                </span>
-                <ConfidenceBadge level={mcq.confidence} />
-              </div>
-            </div>
-          )}
+      {answered && <AnswerExplanation q={mcq} defaultOpen={defaultShowExplanation} onOpenSource={onOpenSource} />}
+    </div>
+  );
+}
+
+function GradeResult({ grade, onOpenSource }: { grade: ShortAnswerGrade; onOpenSource?: OpenSource }) {
+  const color =
+    grade.score >= 80 ? "bg-success/10 text-success" : grade.score >= 50 ? "bg-warning/10 text-warning" : "bg-destructive/10 text-destructive";
+
+  return (
+    <div className="text-xs text-muted-foreground bg-secondary/50 rounded-lg p-3 space-y-2 animate-fade-in">
+      <div className="flex items-start gap-2">
+        <span className={`flex-shrink-0 inline-flex items-center px-2 py-0.5 rounded-full font-semibold ${color}`}>
+          {grade.score}/100
+        </span>
+        <p className="text-foreground">{grade.feedback}</p>
+      </div>
+      {grade.missedPoints.length > 0 && (
+        <div className="space-y-1">
+          <p className="flex items-center gap-1 font-semibold uppercase tracking-wider text-[10px]">
+            <ListX className="w-3 h-3" /> Missed points
+          </p>
+          <ul className="list-disc pl-4 space-y-0.5 text-foreground">
+            {grade.missedPoints.map((point, i) => (
+              <li key={i}>{point}</li>
+            ))}
+          </ul>
         </div>
       )}
+      {grade.evidence.map((e, i) => (
+        <QuotedText
+          key={i}
+          text={e.quote}
+          lines={e.lines}
+          verified={e.verified}
+          onOpen={
+            onOpenSource && e.filename
+              ? () =>
+                  onOpenSource(
+                    sourceOf({ document_id: e.document_id, filename: e.filename!, page: e.page ?? "" }, e.quote, e.lines),
+                  )
+              : undefined
+          }
+        />
+      ))}
     </div>
   );
 }
 
-function ShortAnswerCard({ sa, index }: { sa: ShortAnswer; index: number }) {
+function ShortAnswerCard({
+  sa,
+  index,
+  onSubmit,
+  onOpenSource,
+  onMakeCard,
+}: {
+  sa: ShortAnswer;
+  index: number;
+  /** Grade a written answer; omitted when answers can't be recorded */
+  onSubmit?: (answer: string) => Promise<ShortAnswerGrade>;
+  onOpenSource?: OpenSource;
+  onMakeCard?: StudyModeProps["onMakeCard"];
+}) {
   const [showAnswer, setShowAnswer] = useState(false);
+  const [answer, setAnswer] = useState("");
+  const [grading, setGrading] = useState(false);
+  const [grade, setGrade] = useState<ShortAnswerGrade | null>(null);
+
+  const handleSubmit = async () => {
+    if (!onSubmit || !answer.trim()) return;
+    setGrading(true);
+    try {
+      setGrade(await onSubmit(answer.trim()));
+    } catch {
+      toast.error("Failed to grade answer");
+    } finally {
+      setGrading(false);
+    }
+  };
 
   return (
     <div className="bg-card border border-border rounded-xl p-4 md:p-5 space-y-3">
@@ -151,7 +339,30 @@ function ShortAnswerCard({ sa, index }: { sa: ShortAnswer; index: number }) {
         <p className="text-sm font-medium text-foreground leading-relaxed">{sa.question}</p>
       </div>
 
-      <div className="pl-10">
+      <div className="pl-10 space-y-2">
+        {onSubmit && (
+          <>
+            <textarea
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              disabled={grading || grade !== null}
+              placeholder="Write your answer..."
+              rows={3}
+              maxLength={4000}
+              className="w-full px-3 py-2 rounded-lg bg-secondary border border-border text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/30 resize-y disabled:opacity-70"
+            />
+            {!grade && (
+              <button
+                onClick={handleSubmit}
+                disabled={grading || !answer.trim()}
+                className="px-3 py-2 rounded-lg bg-primary text-primary-foreground text-xs font-medium hover:opacity-90 transition-opacity disabled:opacity-40 min-h-[36px]"
+              >
+                {grading ? "Grading..." : "Check answer"}
+              </button>
+            )}
+            {grade && <GradeResult grade={grade} onOpenSource={onOpenSource} />}
+          </>
+        )}
         <button
           onClick={() => setShowAnswer(!showAnswer)}
           className="text-xs font-medium text-primary hover:underline flex items-center gap-1"
@@ -162,12 +373,29 @@ function ShortAnswerCard({ sa, index }: { sa: ShortAnswer; index: number }) {
         {showAnswer && (
           <div className="mt-2 text-sm text-foreground bg-secondary/50 rounded-lg p-3 space-y-2 animate-fade-in">
             <p>{sa.modelAnswer}</p>
-            <QuotedText text={sa.quotedText} lines={sa.quotedLines} />
+            <QuotedText
+              text={sa.quotedText}
+              lines={sa.quotedLines}
+              verified={sa.verified}
+              onOpen={onOpenSource && (() => onOpenSource(sourceOf(sa.citation, sa.quotedText, sa.quotedLines)))}
+            />
             <div className="flex items-center gap-2">
-              <span className="inline-flex items-center gap-1 px-1.5 py-0.5 bg-card rounded text-xs text-muted-foreground">
-                <FileText className="w-2.5 h-2.5" /> {sa.citation.filename}, p.{sa.citation.page}
-              </span>
+              <CitationChip citation={sa.citation} onOpen={onOpenSource} />
               <ConfidenceBadge level={sa.confidence} />
+              {onMakeCard && (
+                <MakeCardButton
+                  card={{
+                    front: sa.question,
+                    back: sa.modelAnswer,
+                    citation: sa.citation,
+                    quotedText: sa.quotedText,
+                    quotedLines: sa.quotedLines,
+                    verified: sa.verified,
+                    source: "short_answer",
+                  }}
+                  onMakeCard={onMakeCard}
+                />
+              )}
             </div>
           </div>
         )}
@@ -176,31 +404,136 @@ function ShortAnswerCard({ sa, index }: { sa: ShortAnswer; index: number }) {
   );
 }
 
-export function StudyMode({ subjectName, mcqs, shortAnswers, onGenerate, isGenerating }: StudyModeProps) {
-  if (mcqs.length === 0 && shortAnswers.length === 0) {
+function QuestionSection({
+  title,
+  count,
+  reviewing,
+  children,
+}: {
+  title: string;
+  count: number;
+  /** Mistake review has its own heading, so sections drop their counts */
+  reviewing: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="space-y-3">
+      <h3 className="font-display text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+        {reviewing ? title : `${title} (${count})`}
+      </h3>
+      {children}
+    </div>
+  );
+}
+
+export function StudyMode({
+  subjectId,
+  subjectName,
+  studySet,
+  mcqs,
+  shortAnswers,
+  trueFalse,
+  cloze,
+  matching,
+  ordering,
+  retrieval,
+  onGenerate,
+  onOpenSet,
+  isGenerating,
+  onOpenSource,
+  onMakeCard,
+}: StudyModeProps) {
+  // Answers given since the set was opened or last retaken, by question id
+  const [runId, setRunId] = useState(() => crypto.randomUUID());
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [reviewing, setReviewing] = useState(false);
+  const [runs, setRuns] = useState<QuizRun[]>([]);
+  const [showOptions, setShowOptions] = useState(false);
+  // Time taken is measured from the previous answer, or from the start of the run
+  const lastAnswerAt = useRef(Date.now());
+
+  const startRun = useCallback(() => {
+    setRunId(crypto.randomUUID());
+    setAnswers({});
+    setReviewing(false);
+    lastAnswerAt.current = Date.now();
+  }, []);
+
+  const loadRuns = useCallback(() => {
+    if (!studySet) return;
+    fetchQuizRuns(studySet.id).then(setRuns).catch(() => {});
+  }, [studySet]);
+
+  useEffect(() => {
+    startRun();
+    setRuns([]);
+    loadRuns();
+    setShowOptions(false);
+  }, [studySet?.id, startRun, loadRuns]);
+
+  // Every question scored on the spot; short answers are graded separately
+  const scored: { id: string }[] = [...mcqs, ...trueFalse, ...cloze, ...matching, ...ordering];
+
+  const handleAnswer = (questionId: string, answer: string, correct: boolean) => {
+    if (answers[questionId] !== undefined) return;
+    const now = Date.now();
+    const timeTakenMs = now - lastAnswerAt.current;
+    lastAnswerAt.current = now;
+
+    const next = { ...answers, [questionId]: { answer, correct } };
+    setAnswers(next);
+    if (!studySet) return;
+
+    const finished = scored.every((q) => next[q.id] !== undefined);
+    recordQuizAnswer({
+      runId,
+      studySetId: studySet.id,
+      subjectId,
+      questionId,
+      answer,
+      timeTakenMs,
+    })
+      // The last answer completes the run, so it now belongs in the history
+      .then(() => finished && loadRuns())
+      .catch((e) => console.error("Record answer error:", e));
+  };
+
+  const handleShortAnswer = (sa: ShortAnswer, answer: string) => {
+    const now = Date.now();
+    const timeTakenMs = now - lastAnswerAt.current;
+    lastAnswerAt.current = now;
+    return gradeShortAnswer({ runId, questionId: sa.id, answer, timeTakenMs });
+  };
+
+  const answeredAll = scored.length > 0 && scored.every((q) => answers[q.id] !== undefined);
+  const correctCount = scored.filter((q) => answers[q.id]?.correct).length;
+  const mistakes = scored.length - correctCount;
+  // When reviewing, only the questions answered wrong are shown
+  const shown = <Q extends { id: string }>(questions: Q[]) =>
+    reviewing ? questions.filter((q) => !answers[q.id]?.correct) : questions;
+  const cardKey = (q: { id: string }) => `${runId}:${reviewing}:${q.id}`;
+  const cardProps = (q: { id: string }) => ({
+    result: answers[q.id],
+    onAnswer: (answer: string, correct: boolean) => handleAnswer(q.id, answer, correct),
+    defaultShowExplanation: reviewing,
+    onOpenSource,
+  });
+
+  if (scored.length === 0 && shortAnswers.length === 0) {
     return (
-      <div className="flex flex-col items-center justify-center h-full text-center p-6 animate-fade-in">
-        <div className="w-16 h-16 rounded-2xl bg-accent/10 flex items-center justify-center mb-4">
-          <Sparkles className="w-8 h-8 text-accent" />
+      <div className="h-full overflow-y-auto scrollbar-thin">
+        <div className="flex flex-col items-center justify-center min-h-full text-center p-6 animate-fade-in">
+          <div className="w-16 h-16 rounded-2xl bg-accent/10 flex items-center justify-center mb-4">
+            <Sparkles className="w-8 h-8 text-accent" />
+          </div>
+          <h3 className="font-display text-lg font-semibold text-foreground mb-1">Study Mode</h3>
+          <p className="text-sm text-muted-foreground max-w-sm mb-6">
+            Generate quiz questions from your {subjectName} notes. Choose how many of each type, how hard, and which topic or files to focus on.
+          </p>
+          <div className="w-full max-w-md">
+            <StudyOptionsForm subjectId={subjectId} isGenerating={isGenerating} onGenerate={onGenerate} />
+          </div>
         </div>
-        <h3 className="font-display text-lg font-semibold text-foreground mb-1">Study Mode</h3>
-        <p className="text-sm text-muted-foreground max-w-sm mb-6">
-          Generate quiz questions from your {subjectName} notes. Get MCQs and short-answer questions with explanations.
-        </p>
-        <button
-          onClick={onGenerate}
-          disabled={isGenerating}
-          className="px-6 py-3 rounded-xl bg-accent text-accent-foreground font-medium text-sm hover:opacity-90 transition-opacity disabled:opacity-40 min-h-[44px]"
-        >
-          {isGenerating ? (
-            <span className="flex items-center gap-2">
-              <div className="w-4 h-4 border-2 border-accent-foreground border-t-transparent rounded-full animate-spin" />
-              Generating...
-            </span>
-          ) : (
-            "Generate Study Questions"
-          )}
-        </button>
       </div>
     );
   }
@@ -208,37 +541,121 @@ export function StudyMode({ subjectName, mcqs, shortAnswers, onGenerate, isGener
   return (
     <div className="h-full overflow-y-auto scrollbar-thin">
       <div className="p-4 md:p-6 space-y-6">
-        <div className="flex items-center justify-between">
-          <h2 className="font-display text-lg font-semibold text-foreground">Study: {subjectName}</h2>
-          <button
-            onClick={onGenerate}
-            disabled={isGenerating}
-            className="px-4 py-2 rounded-lg bg-accent text-accent-foreground text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-40 min-h-[44px]"
-          >
-            {isGenerating ? "Generating..." : "Regenerate"}
-          </button>
+        <div className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <h2 className="font-display text-lg font-semibold text-foreground">Study: {subjectName}</h2>
+            {studySet && (
+              <p className="text-xs text-muted-foreground truncate">
+                {[`Generated ${formatSetDate(studySet.createdAt)}`, ...setDetails(studySet)].join(" · ")}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <StudySetPicker subjectId={subjectId} activeSetId={studySet?.id} onOpenSet={onOpenSet} />
+            <button
+              onClick={() => setShowOptions((v) => !v)}
+              disabled={isGenerating}
+              className="px-4 py-2 rounded-lg bg-accent text-accent-foreground text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-40 min-h-[44px]"
+            >
+              {isGenerating ? "Generating..." : "New set"}
+            </button>
+          </div>
         </div>
 
-        <div className="space-y-3">
-          <h3 className="font-display text-sm font-semibold text-muted-foreground uppercase tracking-wider">
-            Multiple Choice ({mcqs.length})
-          </h3>
-          {mcqs.map((mcq, i) => (
-            <MCQCard key={mcq.id} mcq={mcq} index={i} />
-          ))}
-        </div>
+        {retrieval && !reviewing && <RetrievalSources scores={retrieval} onOpen={onOpenSource} />}
+
+        {showOptions && (
+          <StudyOptionsForm
+            subjectId={subjectId}
+            isGenerating={isGenerating}
+            onGenerate={onGenerate}
+            onCancel={() => setShowOptions(false)}
+          />
+        )}
 
-        <div className="space-y-3">
+        {reviewing && (
           <h3 className="font-display text-sm font-semibold text-muted-foreground uppercase tracking-wider">
-            Short Answer ({shortAnswers.length})
+            Mistakes ({mistakes} of {scored.length})
           </h3>
-          {shortAnswers.map((sa, i) => (
-            <ShortAnswerCard key={sa.id} sa={sa} index={i} />
-          ))}
-        </div>
+        )}
+
+        {shown(mcqs).length > 0 && (
+          <QuestionSection title="Multiple Choice" count={mcqs.length} reviewing={reviewing}>
+            {shown(mcqs).map((mcq) => (
+              <MCQCard
+                key={cardKey(mcq)}
+                mcq={mcq}
+                index={mcqs.indexOf(mcq)}
+                selected={answers[mcq.id]?.answer}
+                onSelect={(label) => handleAnswer(mcq.id, label, label === mcq.correctAnswer)}
+                defaultShowExplanation={reviewing}
+                onOpenSource={onOpenSource}
+              />
+            ))}
+          </QuestionSection>
+        )}
+
+        {shown(trueFalse).length > 0 && (
+          <QuestionSection title="True or False" count={trueFalse.length} reviewing={reviewing}>
+            {shown(trueFalse).map((q) => (
+              <TrueFalseCard key={cardKey(q)} q={q} label={`T${trueFalse.indexOf(q) + 1}`} {...cardProps(q)} />
+            ))}
+          </QuestionSection>
+        )}
+
+        {shown(cloze).length > 0 && (
+          <QuestionSection title="Fill in the Blank" count={cloze.length} reviewing={reviewing}>
+            {shown(cloze).map((q) => (
+              <ClozeCard key={cardKey(q)} q={q} label={`F${cloze.indexOf(q) + 1}`} {...cardProps(q)} />
+            ))}
+          </QuestionSection>
+        )}
+
+        {shown(matching).length > 0 && (
+          <QuestionSection title="Matching" count={matching.length} reviewing={reviewing}>
+            {shown(matching).map((q) => (
+              <MatchingCard key={cardKey(q)} q={q} label={`M${matching.indexOf(q) + 1}`} {...cardProps(q)} />
+            ))}
+          </QuestionSection>
+        )}
+
+        {shown(ordering).length > 0 && (
+          <QuestionSection title="Ordering" count={ordering.length} reviewing={reviewing}>
+            {shown(ordering).map((q) => (
+              <OrderingCard key={cardKey(q)} q={q} label={`O${ordering.indexOf(q) + 1}`} {...cardProps(q)} />
+            ))}
+          </QuestionSection>
+        )}
+
+        {answeredAll && (
+          <QuizSummary
+            correct={correctCount}
+            total={scored.length}
+            runs={runs}
+            currentRunId={runId}
+            reviewing={reviewing}
+            onRetake={startRun}
+            onToggleReview={() => setReviewing((r) => !r)}
+          />
+        )}
+
+        {shortAnswers.length > 0 && !reviewing && (
+          <QuestionSection title="Short Answer" count={shortAnswers.length} reviewing={false}>
+            {shortAnswers.map((sa, i) => (
+              <ShortAnswerCard
+                key={`${runId}:${sa.id}`}
+                sa={sa}
+                index={i}
+                onSubmit={studySet && ((answer) => handleShortAnswer(sa, answer))}
+                onOpenSource={onOpenSource}
+                onMakeCard={onMakeCard}
+              />
+            ))}
+          </QuestionSection>
+        )}
       </div>
     </div>
   );
 }
 
-export type { MCQ, ShortAnswer };
+export type { MCQ, ShortAnswer, ShortAnswerGrade, QuestionType, StudySet, StudySetContent };
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { Sparkles, FileText } from "lucide-react";
+import { fetchDocuments, type DocumentRecord } from "@/lib/api";
+import type { QuestionType } from "./StudyMode";
+
+type Difficulty = "easy" | "medium" | "hard" | "mixed";
+
+/** What to generate a study set from and how many of each question */
+interface StudyOptions {
+  counts: Record<QuestionType, number>;
+  difficulty: Difficulty;
+  topic?: string;
+  /** Limit the questions to these documents; empty or omitted means all notes */
+  documentIds?: string[];
+}
+
+interface StudyOptionsFormProps {
+  subjectId: string;
+  isGenerating: boolean;
+  onGenerate: (options: StudyOptions) => void;
+  onCancel?: () => void;
+}
+
+const MAX_PER_TYPE = 15;
+
+const QUESTION_TYPES: { type: QuestionType; label: string; defaultCount: number }[] = [
+  { type: "mcq", label: "Multiple choice", defaultCount: 5 },
+  { type: "short_answer", label: "Short answer", defaultCount: 3 },
+  { type: "true_false", label: "True / false", defaultCount: 0 },
+  { type: "cloze", label: "Fill in the blank", defaultCount: 0 },
+  { type: "matching", label: "Matching", defaultCount: 0 },
+  { type: "ordering", label: "Ordering", defaultCount: 0 },
+];
+
+const DIFFICULTIES: { value: Difficulty; label: string }[] = [
+  { value: "easy", label: "Easy" },
+  { value: "medium", label: "Medium" },
+  { value: "hard", label: "Hard" },
+  { value: "mixed", label: "Mixed" },
+];
+
+const chip = (active: boolean) =>
+  `px-3 py-1.5 rounded-lg text-xs font-medium transition-colors min-h-[32px] ${
+    active ? "bg-primary text-primary-foreground" : "bg-secondary text-secondary-foreground hover:bg-muted"
+  }`;
+
+function CountInput({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) {
+  return (
+    <label className="space-y-1">
+      <span className="text-xs font-medium text-muted-foreground">{label}</span>
+      <input
+        type="number"
+        min={0}
+        max={MAX_PER_TYPE}
+        value={value}
+        onChange={(e) => onChange(Math.min(MAX_PER_TYPE, Math.max(0, Math.round(Number(e.target.value) || 0))))}
+        className="w-full px-3 py-2 rounded-lg bg-secondary border border-border text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary/30 min-h-[40px]"
+      />
+    </label>
+  );
+}
+
+/** Counts, difficulty, topic and documents for a new study set */
+export function StudyOptionsForm({ subjectId, isGenerating, onGenerate, onCancel }: StudyOptionsFormProps) {
+  const [counts, setCounts] = useState(
+    () => Object.fromEntries(QUESTION_TYPES.map((t) => [t.type, t.defaultCount])) as Record<QuestionType, number>,
+  );
+  const [difficulty, setDifficulty] = useState<Difficulty>("mixed");
+  const [topic, setTopic] = useState("");
+  const [documentIds, setDocumentIds] = useState<string[]>([]);
+  const [documents, setDocuments] = useState<DocumentRecord[]>([]);
+
+  // Only indexed documents have anything to draw questions from
+  useEffect(() => {
+    fetchDocuments(subjectId)
+      .then((docs) => setDocuments(docs.filter((d) => d.status === "ready")))
+      .catch(() => {});
+  }, [subjectId]);
+
+  const toggleDocument = (id: string) =>
+    setDocumentIds((prev) => (prev.includes(id) ? prev.filter((d) => d !== id) : [...prev, id]));
+
+  const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+
+  const handleSubmit = () =>
+    onGenerate({
+      counts,
+      difficulty,
+      topic: topic.trim() || undefined,
+      documentIds: documentIds.length > 0 ? documentIds : undefined,
+    });
+
+  return (
+    <div className="w-full bg-card border border-border rounded-xl p-4 md:p-5 space-y-4 text-left animate-fade-in">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {QUESTION_TYPES.map((t) => (
+          <CountInput
+            key={t.type}
+            label={t.label}
+            value={counts[t.type]}
+            onChange={(value) => setCounts((prev) => ({ ...prev, [t.type]: value }))}
+          />
+        ))}
+      </div>
+
+      <div className="space-y-1.5">
+        <span className="text-xs font-medium text-muted-foreground">Difficulty</span>
+        <div className="flex flex-wrap gap-1.5">
+          {DIFFICULTIES.map((d) => (
+            <button key={d.value} onClick={() => setDifficulty(d.value)} className={chip(difficulty === d.value)}>
+              {d.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-xs font-medium text-muted-foreground">Topic or keywords (optional)</span>
+        <input
+          value={topic}
+          onChange={(e) => setTopic(e.target.value)}
+          placeholder="e.g. enzyme kinetics"
+          className="w-full px-3 py-2 rounded-lg bg-secondary border border-border text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/30 min-h-[40px]"
+        />
+      </label>
+
+      {documents.length > 1 && (
+        <div className="space-y-1.5">
+          <span className="text-xs font-medium text-muted-foreground">Notes</span>
+          <div className="flex flex-wrap gap-1.5">
+            <button onClick={() => setDocumentIds([])} className={chip(documentIds.length === 0)}>
+              All notes
+            </button>
+            {documents.map((doc) => (
+              <button
+                key={doc.id}
+                onClick={() => toggleDocument(doc.id)}
+                className={`${chip(documentIds.includes(doc.id))} inline-flex items-center gap-1 max-w-full`}
+                title={doc.name}
+              >
+                <FileText className="w-3 h-3 flex-shrink-0" />
+                <span className="truncate max-w-[12rem]">{doc.name}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg bg-secondary text-secondary-foreground text-sm font-medium hover:bg-muted transition-colors min-h-[44px]"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={handleSubmit}
+          disabled={isGenerating || total === 0}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-accent text-accent-foreground text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-40 min-h-[44px]"
+        >
+          {isGenerating ? (
+            <>
+              <div className="w-4 h-4 border-2 border-accent-foreground border-t-transparent rounded-full animate-spin" />
+              Generating...
+            </>
+          ) : (
+            <>
+              <Sparkles className="w-4 h-4" />
+              Generate {total} question{total !== 1 ? "s" : ""}
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export type { Difficulty, StudyOptions };
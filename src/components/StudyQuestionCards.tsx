@@ -0,0 +1,331 @@
+import { useState } from "react";
+import { CheckCircle, XCircle, ChevronDown, ChevronUp, ArrowUp, ArrowDown } from "lucide-react";
+import { sourceOf } from "@/lib/citations";
+import { allMatch, matchAnswers, parseListAnswer, shuffled } from "@/lib/scoring";
+import { CitationChip, ConfidenceBadge, QuotedText, type StudyCitation } from "./StudySources";
+import type { SourceTarget } from "./DocumentViewer";
+
+// Cards for the question types scored without a model: true/false, cloze,
+// matching and ordering. Like multiple choice they're controlled by StudyMode,
+// which records the answer; a card given a result shows it marked.
+
+/** Fields every generated question carries */
+interface QuestionBase {
+  id: string;
+  question: string;
+  explanation?: string;
+  citation: StudyCitation;
+  confidence: "High" | "Medium" | "Low";
+  quotedText?: string;
+  quotedLines?: string;
+  /** Whether quotedText was found in the notes */
+  verified?: boolean;
+}
+
+interface TrueFalse extends QuestionBase {
+  answer: boolean;
+}
+
+/** A sentence copied from the notes with words blanked out */
+interface Cloze extends QuestionBase {
+  sentence: string;
+  /** The sentence around the blanks; one more part than blanks */
+  parts: string[];
+  blanks: string[];
+}
+
+interface Matching extends QuestionBase {
+  pairs: { term: string; definition: string }[];
+}
+
+interface Ordering extends QuestionBase {
+  /** In the correct order */
+  items: string[];
+}
+
+/** An answer as recorded, with whether it was right */
+interface QuizAnswer {
+  answer: string;
+  correct: boolean;
+}
+
+type OpenSource = (target: SourceTarget) => void;
+
+interface CardProps<Q> {
+  q: Q;
+  label: string;
+  /** The answer given in the current run, if answered */
+  result?: QuizAnswer;
+  onAnswer: (answer: string, correct: boolean) => void;
+  defaultShowExplanation?: boolean;
+  onOpenSource?: OpenSource;
+}
+
+const markStyle = (correct: boolean) =>
+  correct ? "border-success bg-success/5" : "border-destructive bg-destructive/5";
+
+export function QuestionHeader({ label, text }: { label: string; text: string }) {
+  return (
+    <div className="flex items-start gap-3">
+      <span className="flex-shrink-0 min-w-7 h-7 px-1 rounded-lg bg-primary/10 text-primary text-xs font-bold flex items-center justify-center">
+        {label}
+      </span>
+      <p className="text-sm font-medium text-foreground leading-relaxed">{text}</p>
+    </div>
+  );
+}
+
+/** The explanation, supporting quote and citation, revealed once answered */
+export function AnswerExplanation({
+  q,
+  defaultOpen = false,
+  onOpenSource,
+}: {
+  q: QuestionBase;
+  defaultOpen?: boolean;
+  onOpenSource?: OpenSource;
+}) {
+  const [open, setOpen] = useState(defaultOpen);
+
+  return (
+    <div className="pl-10 space-y-2 animate-fade-in">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-xs font-medium text-primary hover:underline"
+      >
+        {open ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        Explanation
+      </button>
+      {open && (
+        <div className="text-xs text-muted-foreground bg-secondary/50 rounded-lg p-3 animate-fade-in space-y-2">
+          {q.explanation && <p>{q.explanation}</p>}
+          <QuotedText
+            text={q.quotedText}
+            lines={q.quotedLines}
+            verified={q.verified}
+            onOpen={onOpenSource && (() => onOpenSource(sourceOf(q.citation, q.quotedText, q.quotedLines)))}
+          />
+          <div className="flex items-center gap-2">
+            <CitationChip citation={q.citation} onOpen={onOpenSource} />
+            <ConfidenceBadge level={q.confidence} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CheckButton({ disabled, onClick, children }: { disabled: boolean; onClick: () => void; children: string }) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className="px-3 py-2 rounded-lg bg-primary text-primary-foreground text-xs font-medium hover:opacity-90 transition-opacity disabled:opacity-40 min-h-[36px]"
+    >
+      {children}
+    </button>
+  );
+}
+
+export function TrueFalseCard({ q, label, result, onAnswer, defaultShowExplanation, onOpenSource }: CardProps<TrueFalse>) {
+  const answered = result !== undefined;
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-4 md:p-5 space-y-3">
+      <QuestionHeader label={label} text={q.question} />
+      <div className="grid grid-cols-2 gap-2 pl-10">
+        {[true, false].map((value) => {
+          const isCorrect = value === q.answer;
+          const isSelected = answered && result.answer === String(value);
+          let style = "border-border hover:border-primary/40 hover:bg-secondary/50";
+          if (answered) {
+            if (isCorrect) style = "border-success bg-success/5";
+            else if (isSelected) style = "border-destructive bg-destructive/5";
+            else style = "border-border opacity-50";
+          }
+          return (
+            <button
+              key={String(value)}
+              disabled={answered}
+              onClick={() => onAnswer(String(value), isCorrect)}
+              className={`flex items-center justify-center gap-2 px-3 py-2.5 rounded-lg border text-sm font-medium transition-all min-h-[44px] ${style}`}
+            >
+              {answered && isCorrect && <CheckCircle className="w-4 h-4 text-success" />}
+              {isSelected && !isCorrect && <XCircle className="w-4 h-4 text-destructive" />}
+              {value ? "True" : "False"}
+            </button>
+          );
+        })}
+      </div>
+      {answered && <AnswerExplanation q={q} defaultOpen={defaultShowExplanation} onOpenSource={onOpenSource} />}
+    </div>
+  );
+}
+
+export function ClozeCard({ q, label, result, onAnswer, defaultShowExplanation, onOpenSource }: CardProps<Cloze>) {
+  const recorded = parseListAnswer(result?.answer);
+  const [values, setValues] = useState<string[]>(() => recorded ?? q.blanks.map(() => ""));
+  const answered = result !== undefined;
+  const marks = answered ? matchAnswers(recorded ?? [], q.blanks) : [];
+
+  const setValue = (i: number, value: string) => setValues((prev) => prev.map((v, j) => (j === i ? value : v)));
+  const check = () => onAnswer(JSON.stringify(values.map((v) => v.trim())), allMatch(values, q.blanks));
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-4 md:p-5 space-y-3">
+      <QuestionHeader label={label} text="Fill in the blanks" />
+      <p className="pl-10 text-sm text-foreground leading-loose">
+        {q.parts.map((part, i) => (
+          <span key={i}>
+            {part}
+            {i < q.blanks.length && (
+              <span className="inline-flex flex-col align-middle mx-0.5">
+                <input
+                  value={values[i] ?? ""}
+                  onChange={(e) => setValue(i, e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && !answered && values.every((v) => v.trim()) && check()}
+                  disabled={answered}
+                  aria-label={`Blank ${i + 1}`}
+                  style={{ width: `${Math.max(6, q.blanks[i].length + 2)}ch` }}
+                  className={`px-1.5 py-0.5 rounded-md border bg-secondary text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary/30 ${
+                    answered ? markStyle(marks[i]) : "border-border"
+                  }`}
+                />
+                {answered && !marks[i] && <span className="text-[10px] leading-tight text-success">{q.blanks[i]}</span>}
+              </span>
+            )}
+          </span>
+        ))}
+      </p>
+      {!answered && (
+        <div className="pl-10">
+          <CheckButton disabled={!values.every((v) => v.trim())} onClick={check}>
+            Check
+          </CheckButton>
+        </div>
+      )}
+      {answered && <AnswerExplanation q={q} defaultOpen={defaultShowExplanation} onOpenSource={onOpenSource} />}
+    </div>
+  );
+}
+
+export function MatchingCard({ q, label, result, onAnswer, defaultShowExplanation, onOpenSource }: CardProps<Matching>) {
+  const expected = q.pairs.map((p) => p.definition);
+  const [definitions] = useState(() => shuffled(expected));
+  const [chosen, setChosen] = useState<string[]>(() => parseListAnswer(result?.answer) ?? q.pairs.map(() => ""));
+  const answered = result !== undefined;
+  const marks = answered ? matchAnswers(chosen, expected) : [];
+
+  const choose = (i: number, definition: string) => setChosen((prev) => prev.map((c, j) => (j === i ? definition : c)));
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-4 md:p-5 space-y-3">
+      <QuestionHeader label={label} text={q.question} />
+      <div className="pl-10 space-y-2">
+        {q.pairs.map((pair, i) => (
+          <div
+            key={pair.term}
+            className={`flex flex-col sm:flex-row sm:items-center gap-1.5 sm:gap-3 px-3 py-2 rounded-lg border ${
+              answered ? markStyle(marks[i]) : "border-border"
+            }`}
+          >
+            <span className="sm:w-1/3 text-sm font-medium text-foreground">{pair.term}</span>
+            <div className="flex-1 min-w-0">
+              <select
+                value={chosen[i]}
+                onChange={(e) => choose(i, e.target.value)}
+                disabled={answered}
+                aria-label={`Definition for ${pair.term}`}
+                className="w-full px-2 py-1.5 rounded-md bg-secondary border border-border text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary/30"
+              >
+                <option value="">Choose…</option>
+                {definitions.map((d) => (
+                  <option key={d} value={d}>
+                    {d}
+                  </option>
+                ))}
+              </select>
+              {answered && !marks[i] && <p className="text-xs text-success mt-1">{pair.definition}</p>}
+            </div>
+          </div>
+        ))}
+      </div>
+      {!answered && (
+        <div className="pl-10">
+          <CheckButton
+            disabled={chosen.some((c) => !c)}
+            onClick={() => onAnswer(JSON.stringify(chosen), allMatch(chosen, expected))}
+          >
+            Check matches
+          </CheckButton>
+        </div>
+      )}
+      {answered && <AnswerExplanation q={q} defaultOpen={defaultShowExplanation} onOpenSource={onOpenSource} />}
+    </div>
+  );
+}
+
+export function OrderingCard({ q, label, result, onAnswer, defaultShowExplanation, onOpenSource }: CardProps<Ordering>) {
+  const [order, setOrder] = useState<string[]>(() => parseListAnswer(result?.answer) ?? shuffled(q.items));
+  const answered = result !== undefined;
+  const marks = answered ? matchAnswers(order, q.items) : [];
+
+  const move = (from: number, to: number) =>
+    setOrder((prev) => {
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-4 md:p-5 space-y-3">
+      <QuestionHeader label={label} text={q.question} />
+      <ol className="pl-10 space-y-1.5">
+        {order.map((item, i) => (
+          <li
+            key={item}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm ${answered ? markStyle(marks[i]) : "border-border"}`}
+          >
+            <span className="w-5 text-xs font-semibold text-muted-foreground">{i + 1}.</span>
+            <span className="flex-1 text-foreground">{item}</span>
+            {!answered && (
+              <span className="flex gap-0.5">
+                <button
+                  onClick={() => move(i, i - 1)}
+                  disabled={i === 0}
+                  className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-secondary disabled:opacity-30"
+                  aria-label="Move up"
+                >
+                  <ArrowUp className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => move(i, i + 1)}
+                  disabled={i === order.length - 1}
+                  className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-secondary disabled:opacity-30"
+                  aria-label="Move down"
+                >
+                  <ArrowDown className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+      {answered && !result.correct && (
+        <p className="pl-10 text-xs text-muted-foreground">
+          Correct order: <span className="text-success">{q.items.join(" → ")}</span>
+        </p>
+      )}
+      {!answered && (
+        <div className="pl-10">
+          <CheckButton disabled={false} onClick={() => onAnswer(JSON.stringify(order), allMatch(order, q.items))}>
+            Check order
+          </CheckButton>
+        </div>
+      )}
+      {answered && <AnswerExplanation q={q} defaultOpen={defaultShowExplanation} onOpenSource={onOpenSource} />}
+    </div>
+  );
+}
+
+export type { QuestionBase, TrueFalse, Cloze, Matching, Ordering, QuizAnswer };
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { ChevronDown, ChevronUp, FileText, Quote } from "lucide-react";
+import { citationLabel, sourceOf } from "@/lib/citations";
+import type { RetrievalScore } from "@/lib/api";
+import { VerificationMarker } from "./VerificationMarker";
+import type { SourceTarget } from "./DocumentViewer";
+
+// Citations, supporting quotes and confidence as shown on generated study
+// material: quiz questions and flashcards, and the notes a set was drawn from
+
+export interface StudyCitation {
+  document_id?: string;
+  filename: string;
+  page: string;
+  /** Line range within the document, like L12-L15 */
+  lines?: string;
+}
+
+type OpenSource = (target: SourceTarget) => void;
+
+export function ConfidenceBadge({ level }: { level: "High" | "Medium" | "Low" }) {
+  const colors = {
+    High: "bg-success/10 text-success",
+    Medium: "bg-warning/10 text-warning",
+    Low: "bg-destructive/10 text-destructive",
+  };
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${colors[level]}`}>
+      {level}
+    </span>
+  );
+}
+
+export function CitationChip({ citation, onOpen }: { citation: StudyCitation; onOpen?: OpenSource }) {
+  return (
+    <button
+      onClick={() => onOpen?.(sourceOf(citation))}
+      className="inline-flex items-center gap-1 px-1.5 py-0.5 bg-card rounded text-xs text-muted-foreground hover:text-foreground transition-colors"
+      title="Open in document viewer"
+    >
+      <FileText className="w-2.5 h-2.5" /> {citationLabel(citation, true)}
+    </button>
+  );
+}
+
+export function QuotedText({
+  text,
+  lines,
+  verified,
+  onOpen,
+}: {
+  text?: string;
+  lines?: string;
+  verified?: boolean;
+  onOpen?: () => void;
+}) {
+  if (!text) return null;
+  return (
+    <blockquote
+      onClick={onOpen}
+      className={`pl-3 border-l-2 border-primary/30 text-xs text-muted-foreground italic mt-2 ${
+        onOpen ? "cursor-pointer hover:border-primary hover:text-foreground transition-colors" : ""
+      }`}
+      title={onOpen ? "Show in document" : undefined}
+    >
+      <Quote className="w-3 h-3 inline mr-1 opacity-50" />
+      "{text}"
+      {(lines || verified !== undefined) && (
+        <span className="flex flex-wrap items-center gap-x-2 mt-1 not-italic font-medium text-muted-foreground/70">
+          <VerificationMarker verified={verified} />
+          {lines && `Lines ${lines}`}
+        </span>
+      )}
+    </blockquote>
+  );
+}
+
+const percent = (n: number) => `${Math.round(n * 100)}%`;
+
+/** Why a retrieved chunk was picked: its match on each side of the hybrid search */
+function scoreLabel(score: RetrievalScore): string {
+  return [
+    score.similarity !== null && `${percent(score.similarity)} similar`,
+    score.semanticRank !== null && `meaning #${score.semanticRank}`,
+    score.keywordRank !== null && `keywords #${score.keywordRank}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/** The chunks a set was generated from, best match first, each openable at its page */
+export function RetrievalSources({ scores, onOpen }: { scores: RetrievalScore[]; onOpen?: OpenSource }) {
+  const [open, setOpen] = useState(false);
+  if (scores.length === 0) return null;
+
+  return (
+    <div className="text-xs">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="font-medium text-muted-foreground hover:text-foreground flex items-center gap-1 transition-colors"
+      >
+        {open ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        Drawn from {scores.length} passage{scores.length !== 1 ? "s" : ""} of your notes
+      </button>
+      {open && (
+        <ol className="mt-2 space-y-1 animate-fade-in">
+          {scores.map((score) => {
+            const citation = {
+              document_id: score.documentId,
+              filename: score.filename,
+              page: score.page === null ? "" : String(score.page),
+            };
+            return (
+              <li key={score.chunkId} className="flex flex-wrap items-center gap-x-2 gap-y-0.5">
+                <CitationChip citation={citation} onOpen={onOpen} />
+                {score.section && <span className="text-muted-foreground truncate max-w-[16rem]">{score.section}</span>}
+                <span className="text-muted-foreground/70">{scoreLabel(score)}</span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
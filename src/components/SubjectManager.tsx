@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { BookOpen, GraduationCap, Brain } from "lucide-react";
+import { QuotaError } from "@/lib/api";
 
 export interface Subject {
   id: string;
@@ -14,26 +15,36 @@ const SUBJECT_COLORS = ["bg-subject-1", "bg-subject-2", "bg-subject-3"];
 interface SubjectManagerProps {
   subjects: Subject[];
   activeSubject: Subject | null;
+  /** The most subjects the user's quota allows */
+  maxSubjects: number;
   onSelectSubject: (subject: Subject) => void;
-  onCreateSubject: (name: string) => void;
+  /** Rejects with a QuotaError when the database refuses another subject */
+  onCreateSubject: (name: string) => Promise<void>;
   onDeleteSubject: (id: string) => void;
 }
 
 export function SubjectManager({
   subjects,
   activeSubject,
+  maxSubjects,
   onSelectSubject,
   onCreateSubject,
   onDeleteSubject,
 }: SubjectManagerProps) {
   const [newName, setNewName] = useState("");
   const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const handleCreate = () => {
-    if (newName.trim() && subjects.length < 3) {
-      onCreateSubject(newName.trim());
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    setError(null);
+    try {
+      await onCreateSubject(name);
       setNewName("");
       setIsCreating(false);
+    } catch (e) {
+      setError(e instanceof QuotaError ? e.message : "Failed to create subject");
     }
   };
 
@@ -41,7 +52,7 @@ export function SubjectManager({
     <div className="space-y-3">
       <div className="flex items-center justify-between">
         <h2 className="font-display text-sm font-semibold text-muted-foreground uppercase tracking-wider">
-          Subjects ({subjects.length}/3)
+          Subjects ({subjects.length}/{maxSubjects})
         </h2>
       </div>
 
@@ -87,7 +98,7 @@ export function SubjectManager({
         })}
       </div>
 
-      {subjects.length < 3 && (
+      {subjects.length < maxSubjects ? (
         <>
           {isCreating ? (
             <div className="space-y-2 animate-fade-in">
@@ -99,6 +110,7 @@ export function SubjectManager({
                 placeholder="Subject name..."
                 className="w-full px-3 py-2 rounded-lg bg-secondary text-sm text-foreground placeholder:text-muted-foreground border border-border focus:outline-none focus:ring-2 focus:ring-primary/40"
               />
+              {error && <p className="text-xs text-destructive">{error}</p>}
               <div className="flex gap-2">
                 <button
                   onClick={handleCreate}
@@ -108,7 +120,7 @@ export function SubjectManager({
                   Create
                 </button>
                 <button
-                  onClick={() => { setIsCreating(false); setNewName(""); }}
+                  onClick={() => { setIsCreating(false); setNewName(""); setError(null); }}
                   className="px-3 py-2 rounded-lg bg-secondary text-secondary-foreground text-sm hover:bg-muted transition-colors"
                 >
                   Cancel
@@ -124,6 +136,10 @@ export function SubjectManager({
             </button>
           )}
         </>
+      ) : (
+        <p className="px-1 text-xs text-muted-foreground">
+          You've reached your limit of {maxSubjects} subjects. Delete one to add another.
+        </p>
       )}
     </div>
   );
@@ -0,0 +1,23 @@
+import { ShieldCheck, ShieldAlert } from "lucide-react";
+
+/** Whether a quoted passage was found in the notes the answer was based on */
+export function VerificationMarker({ verified }: { verified?: boolean }) {
+  if (verified === undefined) return null;
+  return verified ? (
+    <span
+      className="inline-flex items-center gap-0.5 not-italic font-medium text-success"
+      title="This quote was found in your notes"
+    >
+      <ShieldCheck className="w-3 h-3" />
+      Verified
+    </span>
+  ) : (
+    <span
+      className="inline-flex items-center gap-0.5 not-italic font-medium text-warning"
+      title="This quote couldn't be found in your notes — double-check it"
+    >
+      <ShieldAlert className="w-3 h-3" />
+      Unverified
+    </span>
+  );
+}
@@ -0,0 +1,24 @@
+import * as React from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+/** The current Supabase Auth session; `loading` until it has been restored */
+export function useAuth() {
+  const [session, setSession] = React.useState<Session | null>(null);
+  const [loading, setLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    // Subscribe first so a sign-in from a magic link redirect isn't missed
+    const { data } = supabase.auth.onAuthStateChange((_event, next) => {
+      setSession(next);
+      setLoading(false);
+    });
+    supabase.auth.getSession().then(({ data: { session: current } }) => {
+      setSession(current);
+      setLoading(false);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  return { session, user: session?.user ?? null, loading };
+}
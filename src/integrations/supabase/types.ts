@@ -18,6 +18,8 @@ export type Database = {
         Row: {
           citations: Json | null
           confidence: string | null
+          confidence_factors: Json | null
+          confidence_score: number | null
           content: string
           created_at: string
           evidence: Json | null
@@ -28,6 +30,8 @@ export type Database = {
         Insert: {
           citations?: Json | null
           confidence?: string | null
+          confidence_factors?: Json | null
+          confidence_score?: number | null
           content: string
           created_at?: string
           evidence?: Json | null
@@ -38,6 +42,8 @@ export type Database = {
         Update: {
           citations?: Json | null
           confidence?: string | null
+          confidence_factors?: Json | null
+          confidence_score?: number | null
           content?: string
           created_at?: string
           evidence?: Json | null
@@ -61,7 +67,13 @@ export type Database = {
           content: string
           created_at: string
           document_id: string
+          embedding: string | null
+          fts: unknown
+          heading_path: string | null
           id: string
+          line_end: number | null
+          line_start: number | null
+          ocr_confidence: number | null
           page_number: number | null
           subject_id: string
         }
@@ -70,7 +82,13 @@ export type Database = {
           content: string
           created_at?: string
           document_id: string
+          embedding?: string | null
+          fts?: unknown
+          heading_path?: string | null
           id?: string
+          line_end?: number | null
+          line_start?: number | null
+          ocr_confidence?: number | null
           page_number?: number | null
           subject_id: string
         }
@@ -79,7 +97,13 @@ export type Database = {
           content?: string
           created_at?: string
           document_id?: string
+          embedding?: string | null
+          fts?: unknown
+          heading_path?: string | null
           id?: string
+          line_end?: number | null
+          line_start?: number | null
+          ocr_confidence?: number | null
           page_number?: number | null
           subject_id?: string
         }
@@ -102,28 +126,40 @@ export type Database = {
       }
       documents: {
         Row: {
+          chunk_count: number
           created_at: string
+          error: string | null
           file_size: number
           filename: string
           id: string
+          status: string
           storage_path: string
           subject_id: string
+          updated_at: string
         }
         Insert: {
+          chunk_count?: number
           created_at?: string
+          error?: string | null
           file_size?: number
           filename: string
           id?: string
+          status?: string
           storage_path: string
           subject_id: string
+          updated_at?: string
         }
         Update: {
+          chunk_count?: number
           created_at?: string
+          error?: string | null
           file_size?: number
           filename?: string
           id?: string
+          status?: string
           storage_path?: string
           subject_id?: string
+          updated_at?: string
         }
         Relationships: [
           {
@@ -135,27 +171,290 @@ export type Database = {
           },
         ]
       }
+      flashcards: {
+        Row: {
+          back: string
+          citation: Json | null
+          created_at: string
+          due_at: string
+          ease: number
+          front: string
+          id: string
+          interval_days: number
+          last_reviewed_at: string | null
+          quoted_lines: string | null
+          quoted_text: string | null
+          repetitions: number
+          source: string
+          subject_id: string
+          updated_at: string
+          verified: boolean | null
+        }
+        Insert: {
+          back: string
+          citation?: Json | null
+          created_at?: string
+          due_at?: string
+          ease?: number
+          front: string
+          id?: string
+          interval_days?: number
+          last_reviewed_at?: string | null
+          quoted_lines?: string | null
+          quoted_text?: string | null
+          repetitions?: number
+          source?: string
+          subject_id: string
+          updated_at?: string
+          verified?: boolean | null
+        }
+        Update: {
+          back?: string
+          citation?: Json | null
+          created_at?: string
+          due_at?: string
+          ease?: number
+          front?: string
+          id?: string
+          interval_days?: number
+          last_reviewed_at?: string | null
+          quoted_lines?: string | null
+          quoted_text?: string | null
+          repetitions?: number
+          source?: string
+          subject_id?: string
+          updated_at?: string
+          verified?: boolean | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flashcards_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_attempts: {
+        Row: {
+          answer: string
+          created_at: string
+          grade: Json | null
+          id: string
+          is_correct: boolean | null
+          question_id: string
+          run_id: string
+          study_set_id: string
+          subject_id: string
+          time_taken_ms: number | null
+        }
+        Insert: {
+          answer: string
+          created_at?: string
+          grade?: Json | null
+          id?: string
+          is_correct?: boolean | null
+          question_id: string
+          run_id: string
+          study_set_id: string
+          subject_id: string
+          time_taken_ms?: number | null
+        }
+        Update: {
+          answer?: string
+          created_at?: string
+          grade?: Json | null
+          id?: string
+          is_correct?: boolean | null
+          question_id?: string
+          run_id?: string
+          study_set_id?: string
+          subject_id?: string
+          time_taken_ms?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "study_questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempts_study_set_id_fkey"
+            columns: ["study_set_id"]
+            isOneToOne: false
+            referencedRelation: "study_sets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempts_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      study_questions: {
+        Row: {
+          citation: Json | null
+          confidence: string | null
+          created_at: string
+          id: string
+          payload: Json
+          position: number
+          question: string
+          quoted_lines: string | null
+          quoted_text: string | null
+          study_set_id: string
+          subject_id: string
+          type: string
+          verified: boolean | null
+        }
+        Insert: {
+          citation?: Json | null
+          confidence?: string | null
+          created_at?: string
+          id?: string
+          payload?: Json
+          position: number
+          question: string
+          quoted_lines?: string | null
+          quoted_text?: string | null
+          study_set_id: string
+          subject_id: string
+          type: string
+          verified?: boolean | null
+        }
+        Update: {
+          citation?: Json | null
+          confidence?: string | null
+          created_at?: string
+          id?: string
+          payload?: Json
+          position?: number
+          question?: string
+          quoted_lines?: string | null
+          quoted_text?: string | null
+          study_set_id?: string
+          subject_id?: string
+          type?: string
+          verified?: boolean | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "study_questions_study_set_id_fkey"
+            columns: ["study_set_id"]
+            isOneToOne: false
+            referencedRelation: "study_sets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "study_questions_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      study_sets: {
+        Row: {
+          created_at: string
+          difficulty: string | null
+          document_ids: string[] | null
+          id: string
+          question_count: number
+          subject_id: string
+          topic: string | null
+        }
+        Insert: {
+          created_at?: string
+          difficulty?: string | null
+          document_ids?: string[] | null
+          id?: string
+          question_count?: number
+          subject_id: string
+          topic?: string | null
+        }
+        Update: {
+          created_at?: string
+          difficulty?: string | null
+          document_ids?: string[] | null
+          id?: string
+          question_count?: number
+          subject_id?: string
+          topic?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "study_sets_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       subjects: {
         Row: {
           created_at: string
           document_count: number
           id: string
           name: string
-          session_id: string
+          owner_id: string | null
+          session_id: string | null
         }
         Insert: {
           created_at?: string
           document_count?: number
           id?: string
           name: string
-          session_id: string
+          owner_id?: string | null
+          session_id?: string | null
         }
         Update: {
           created_at?: string
           document_count?: number
           id?: string
           name?: string
-          session_id?: string
+          owner_id?: string | null
+          session_id?: string | null
+        }
+        Relationships: []
+      }
+      user_quotas: {
+        Row: {
+          created_at: string
+          max_chunks: number
+          max_documents: number
+          max_file_bytes: number
+          max_subjects: number
+          max_total_bytes: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          max_chunks?: number
+          max_documents?: number
+          max_file_bytes?: number
+          max_subjects?: number
+          max_total_bytes?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          max_chunks?: number
+          max_documents?: number
+          max_file_bytes?: number
+          max_subjects?: number
+          max_total_bytes?: number
+          updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -164,7 +463,58 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      check_storage_quota: {
+        Args: {
+          p_metadata: Json
+          p_name: string
+        }
+        Returns: boolean
+      }
+      check_upload_quota: {
+        Args: {
+          p_file_size: number
+          p_subject_id: string
+        }
+        Returns: undefined
+      }
+      claim_session_data: {
+        Args: {
+          p_session_id: string
+        }
+        Returns: number
+      }
+      count_session_data: {
+        Args: {
+          p_session_id: string
+        }
+        Returns: number
+      }
+      hybrid_search_chunks: {
+        Args: {
+          full_text_weight?: number
+          match_count?: number
+          match_document_ids?: string[]
+          match_subject_id: string
+          query_embedding: string
+          query_text: string
+          rrf_k?: number
+          semantic_weight?: number
+        }
+        Returns: {
+          id: string
+          keyword_rank: number
+          keyword_score: number
+          score: number
+          semantic_rank: number
+          similarity: number
+        }[]
+      }
+      owns_subject: {
+        Args: {
+          p_subject_id: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
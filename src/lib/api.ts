@@ -1,24 +1,134 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
-import type { ChatMessage } from "@/components/ChatInterface";
-import type { MCQ, ShortAnswer } from "@/components/StudyMode";
-
-// Session ID for anonymous usage
-function getSessionId(): string {
-  let id = localStorage.getItem("askmynotes_session");
-  if (!id) {
-    id = crypto.randomUUID();
-    localStorage.setItem("askmynotes_session", id);
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { ChatMessage, Citation } from "@/components/ChatInterface";
+import type { MCQ, ShortAnswer, ShortAnswerGrade, QuestionType, StudySet, StudySetContent } from "@/components/StudyMode";
+import type { Cloze, Matching, Ordering, TrueFalse } from "@/components/StudyQuestionCards";
+import type { QuizRun } from "@/components/QuizSummary";
+import type { Difficulty, StudyOptions } from "@/components/StudyOptionsForm";
+import type { Flashcard, NewFlashcard } from "@/components/Flashcards";
+import { schedule, GRADE_QUALITY, type ReviewGrade } from "@/lib/sm2";
+
+// Before accounts, subjects were keyed on a random ID kept in localStorage.
+// It's now only read to offer claiming that data into the signed-in account.
+const LEGACY_SESSION_KEY = "askmynotes_session";
+
+async function currentUserId(): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("You're signed out. Sign in again to continue.");
+  return session.user.id;
+}
+
+export type QuotaKind = "subjects" | "documents" | "file_size" | "storage" | "chunks";
+
+// SQLSTATEs raised by the quota triggers and check_upload_quota
+const QUOTA_ERROR_CODES: Record<string, QuotaKind> = {
+  AMN01: "subjects",
+  AMN02: "documents",
+  AMN03: "file_size",
+  AMN04: "storage",
+  AMN05: "chunks",
+};
+
+/** A per-user limit the database refused to exceed. The message is written to be shown as is. */
+export class QuotaError extends Error {
+  constructor(public kind: QuotaKind, message: string) {
+    super(message);
+    this.name = "QuotaError";
   }
-  return id;
 }
 
-export const sessionId = getSessionId();
+/** Turn a quota violation into a QuotaError, leaving any other error unchanged */
+function quotaError(error: { code?: string; message: string }) {
+  const kind = error.code ? QUOTA_ERROR_CODES[error.code] : undefined;
+  return kind ? new QuotaError(kind, error.message) : error;
+}
+
+/** Why the study function couldn't generate a set. The message is written to be shown as is. */
+export class StudyGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StudyGenerationError";
+  }
+}
+
+export interface Quota {
+  maxSubjects: number;
+  maxDocuments: number;
+  maxFileBytes: number;
+  maxTotalBytes: number;
+  maxChunks: number;
+}
+
+export async function fetchQuota(): Promise<Quota> {
+  const { data, error } = await supabase
+    .from("user_quotas")
+    .select("*")
+    .eq("user_id", await currentUserId())
+    .single();
+  if (error) throw error;
+  return {
+    maxSubjects: data.max_subjects,
+    maxDocuments: data.max_documents,
+    maxFileBytes: data.max_file_bytes,
+    maxTotalBytes: data.max_total_bytes,
+    maxChunks: data.max_chunks,
+  };
+}
+
+export async function signIn(email: string, password: string) {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) throw error;
+}
+
+/** Create an account; resolves true when the email must be confirmed before signing in */
+export async function signUp(email: string, password: string): Promise<boolean> {
+  const { data, error } = await supabase.auth.signUp({
+    email,
+    password,
+    options: { emailRedirectTo: window.location.origin },
+  });
+  if (error) throw error;
+  return !data.session;
+}
+
+export async function sendMagicLink(email: string) {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.origin },
+  });
+  if (error) throw error;
+}
+
+export async function signOut() {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+}
+
+/** Number of subjects this browser created anonymously that no account has claimed */
+export async function countLegacySessionData(): Promise<number> {
+  const legacySessionId = localStorage.getItem(LEGACY_SESSION_KEY);
+  if (!legacySessionId) return 0;
+  const { data, error } = await supabase.rpc("count_session_data", { p_session_id: legacySessionId });
+  if (error) throw error;
+  return data ?? 0;
+}
+
+/** Move this browser's anonymous subjects into the signed-in account */
+export async function claimLegacySessionData(): Promise<number> {
+  const legacySessionId = localStorage.getItem(LEGACY_SESSION_KEY);
+  if (!legacySessionId) return 0;
+  const { data, error } = await supabase.rpc("claim_session_data", { p_session_id: legacySessionId });
+  if (error) throw quotaError(error);
+  localStorage.removeItem(LEGACY_SESSION_KEY);
+  return data ?? 0;
+}
 
 export async function fetchSubjects() {
   const { data, error } = await supabase
     .from("subjects")
     .select("*")
-    .eq("session_id", sessionId)
+    .eq("owner_id", await currentUserId())
     .order("created_at");
   if (error) throw error;
   return (data || []).map((s: any) => ({
@@ -32,10 +142,10 @@ export async function fetchSubjects() {
 export async function createSubject(name: string) {
   const { data, error } = await supabase
     .from("subjects")
-    .insert({ name, session_id: sessionId })
+    .insert({ name, owner_id: await currentUserId() })
     .select()
     .single();
-  if (error) throw error;
+  if (error) throw quotaError(error);
   return {
     id: data.id,
     name: data.name,
@@ -45,12 +155,33 @@ export async function createSubject(name: string) {
 }
 
 export async function deleteSubject(id: string) {
+  // Rows cascade with the subject, but storage objects have to be removed explicitly
+  const { data: docs, error: docsError } = await supabase
+    .from("documents")
+    .select("storage_path")
+    .eq("subject_id", id);
+  if (docsError) throw docsError;
+  if (docs && docs.length > 0) {
+    const { error: storageError } = await supabase.storage
+      .from("documents")
+      .remove(docs.map((d) => d.storage_path));
+    if (storageError) throw storageError;
+  }
+
   const { error } = await supabase.from("subjects").delete().eq("id", id);
   if (error) throw error;
 }
 
 export async function uploadFile(subjectId: string, file: File) {
-  const path = `${sessionId}/${subjectId}/${crypto.randomUUID()}_${file.name}`;
+  // Paths start with the owner's user ID, which storage policies key on
+  const path = `${await currentUserId()}/${subjectId}/${crypto.randomUUID()}_${file.name}`;
+
+  // Refuse files that won't fit before spending the upload on them
+  const { error: quotaCheckError } = await supabase.rpc("check_upload_quota", {
+    p_subject_id: subjectId,
+    p_file_size: file.size,
+  });
+  if (quotaCheckError) throw quotaError(quotaCheckError);
 
   const { error: uploadError } = await supabase.storage
     .from("documents")
@@ -67,29 +198,188 @@ export async function uploadFile(subjectId: string, file: File) {
     })
     .select()
     .single();
+  if (docError) {
+    // The quota is checked again on insert; don't leave the file behind if it's refused
+    await supabase.storage.from("documents").remove([path]);
+    throw quotaError(docError);
+  }
+
+  startProcessing(doc);
+
+  return doc;
+}
+
+type ProcessableDocument = { id: string; subject_id: string; storage_path: string; filename: string };
+
+// process-document calls run at once from this tab; more, as in a subject
+// rebuild, wait their turn rather than run into rate and concurrency limits
+const PROCESSING_CONCURRENCY = 3;
+const processingQueue: ProcessableDocument[] = [];
+// Ids of documents waiting in the queue or being processed by this tab
+const processingHere = new Set<string>();
+
+function drainProcessingQueue() {
+  while (processingHere.size - processingQueue.length < PROCESSING_CONCURRENCY && processingQueue.length > 0) {
+    const doc = processingQueue.shift()!;
+    supabase.functions
+      .invoke("process-document", {
+        body: {
+          document_id: doc.id,
+          subject_id: doc.subject_id,
+          storage_path: doc.storage_path,
+          filename: doc.filename,
+        },
+      })
+      .catch((e) => console.error("Process document error:", e))
+      .finally(() => {
+        processingHere.delete(doc.id);
+        drainProcessingQueue();
+      });
+  }
+}
+
+// Fire-and-forget: don't await processing so callers return fast. Progress
+// and failures are reported through the document's status column.
+function startProcessing(doc: ProcessableDocument) {
+  if (processingHere.has(doc.id)) return;
+  processingHere.add(doc.id);
+  processingQueue.push(doc);
+  drainProcessingQueue();
+}
+
+/** Remove a document, its chunks and its file in storage */
+export async function deleteDocument(documentId: string) {
+  const { data: doc, error: docError } = await supabase
+    .from("documents")
+    .select("storage_path")
+    .eq("id", documentId)
+    .single();
   if (docError) throw docError;
 
-  const { count } = await supabase
+  const { error: storageError } = await supabase.storage.from("documents").remove([doc.storage_path]);
+  if (storageError) throw storageError;
+
+  // Chunks cascade; a trigger keeps subjects.document_count in step
+  const { error } = await supabase.from("documents").delete().eq("id", documentId);
+  if (error) throw error;
+}
+
+/** Rename a document, keeping its original extension so it is still parsed the same way */
+export async function renameDocument(documentId: string, newName: string) {
+  const { data: doc, error: docError } = await supabase
     .from("documents")
-    .select("*", { count: "exact", head: true })
-    .eq("subject_id", subjectId);
+    .select("filename")
+    .eq("id", documentId)
+    .single();
+  if (docError) throw docError;
 
-  await supabase
-    .from("subjects")
-    .update({ document_count: count || 0 })
-    .eq("id", subjectId);
+  const extension = doc.filename.match(/\.[^.]+$/)?.[0] || "";
+  const name = newName.trim();
+  if (!name) throw new Error("File name cannot be empty");
+  const filename = name.toLowerCase().endsWith(extension.toLowerCase()) ? name : `${name}${extension}`;
 
-  // Fire-and-forget: don't await processing so upload returns fast
-  supabase.functions.invoke("process-document", {
-    body: {
-      document_id: doc.id,
-      subject_id: subjectId,
-      storage_path: path,
-      filename: file.name,
-    },
-  }).catch((e) => console.error("Process document error:", e));
+  const { error } = await supabase.from("documents").update({ filename }).eq("id", documentId);
+  if (error) throw error;
+  return filename;
+}
 
-  return doc;
+/** Download the original uploaded file under its current name */
+export async function downloadDocument(documentId: string) {
+  const { data: doc, error: docError } = await supabase
+    .from("documents")
+    .select("storage_path, filename")
+    .eq("id", documentId)
+    .single();
+  if (docError) throw docError;
+
+  const { data, error } = await supabase.storage
+    .from("documents")
+    .createSignedUrl(doc.storage_path, 60, { download: doc.filename });
+  if (error) throw error;
+
+  const link = document.createElement("a");
+  link.href = data.signedUrl;
+  link.download = doc.filename;
+  link.click();
+}
+
+/** Where to find a document for the in-app viewer */
+export interface DocumentFile {
+  id: string;
+  filename: string;
+  url: string;
+}
+
+/**
+ * Resolve a cited document and sign a short-lived URL to its original file.
+ * Citations saved before documents were cited by id only carry a filename,
+ * so fall back to looking that up within the subject.
+ */
+export async function getDocumentFile(
+  subjectId: string,
+  source: { documentId?: string; filename: string },
+): Promise<DocumentFile> {
+  const query = supabase.from("documents").select("id, filename, storage_path");
+  const { data: doc, error: docError } = source.documentId
+    ? await query.eq("id", source.documentId).single()
+    : await query.eq("subject_id", subjectId).eq("filename", source.filename).limit(1).single();
+  if (docError) throw docError;
+
+  const { data, error } = await supabase.storage.from("documents").createSignedUrl(doc.storage_path, 3600);
+  if (error) throw error;
+  return { id: doc.id, filename: doc.filename, url: data.signedUrl };
+}
+
+/** A document's extracted text, chunk by chunk, for formats the viewer can't render */
+export async function fetchDocumentChunks(
+  documentId: string,
+): Promise<{ content: string; pageNumber: number | null; lineStart: number | null }[]> {
+  const { data, error } = await supabase
+    .from("chunks")
+    .select("content, page_number, line_start")
+    .eq("document_id", documentId)
+    .order("chunk_index");
+  if (error) throw error;
+  return (data || []).map((c) => ({ content: c.content, pageNumber: c.page_number, lineStart: c.line_start }));
+}
+
+/**
+ * Queue documents for reprocessing, then start each one in its own
+ * process-document call, as a fresh upload is, so a long rebuild isn't bound
+ * to one call's time limit. The calls run a few at a time. Returns how many
+ * were queued.
+ */
+async function queueReprocessing(body: { document_id: string } | { subject_id: string }): Promise<number> {
+  const { data, error } = await supabase.functions.invoke("reprocess-document", { body });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  for (const doc of data.documents) startProcessing(doc);
+  return data.queued;
+}
+
+/** Delete a document's chunks and run extraction, chunking and embedding again */
+export async function reprocessDocument(documentId: string) {
+  await queueReprocessing({ document_id: documentId });
+}
+
+/**
+ * Start the user's documents left queued with nothing to run them, such as
+ * those a migration queues for re-indexing, whichever subject they're in.
+ */
+export async function resumeStalledDocuments(): Promise<void> {
+  const { data, error } = await supabase
+    .from("documents")
+    .select("id")
+    .eq("status", "queued")
+    .lt("updated_at", new Date(Date.now() - STALLED_AFTER_MS).toISOString())
+    .order("created_at");
+  if (error) throw error;
+  for (const doc of data || []) await reprocessDocument(doc.id).catch(() => {});
+}
+
+/** Reprocess every document of a subject that isn't already being processed */
+export async function rebuildSubjectIndex(subjectId: string): Promise<number> {
+  return queueReprocessing({ subject_id: subjectId });
 }
 
 export async function fetchMessages(subjectId: string): Promise<ChatMessage[]> {
@@ -106,17 +396,78 @@ export async function fetchMessages(subjectId: string): Promise<ChatMessage[]> {
     citations: m.citations || undefined,
     evidence: m.evidence || undefined,
     confidence: m.confidence || undefined,
+    confidenceScore: m.confidence_score ?? undefined,
+    confidenceFactors: m.confidence_factors || undefined,
     timestamp: new Date(m.created_at),
   }));
 }
 
+/** Why a chunk was picked as context: its rank on each side of the hybrid search */
+export interface RetrievalScore {
+  chunkId: string;
+  documentId: string;
+  filename: string;
+  page: number | null;
+  section: string | null;
+  similarity: number | null;
+  keywordScore: number | null;
+  semanticRank: number | null;
+  keywordRank: number | null;
+  score: number;
+}
+
+function toRetrievalScores(rows: Record<string, unknown>[] | undefined): RetrievalScore[] {
+  return (rows || []).map((r) => ({
+    chunkId: r.chunk_id as string,
+    documentId: r.document_id as string,
+    filename: r.filename as string,
+    page: r.page as number | null,
+    section: r.section as string | null,
+    similarity: r.similarity as number | null,
+    keywordScore: r.keyword_score as number | null,
+    semanticRank: r.semantic_rank as number | null,
+    keywordRank: r.keyword_rank as number | null,
+    score: r.score as number,
+  }));
+}
+
+/** The signals behind an answer's confidence score, each 0–1 */
+export interface ConfidenceFactors {
+  retrieval: number;
+  verification: number;
+  coverage: number;
+  ocr: number;
+}
+
+export interface ChatResponse {
+  content: string;
+  citations: Citation[];
+  evidence: NonNullable<ChatMessage["evidence"]>;
+  confidence: string;
+  confidenceScore: number | null;
+  confidenceFactors: ConfidenceFactors | null;
+  retrieval: RetrievalScore[];
+}
+
+function toChatResponse(data: Record<string, unknown>, content: string): ChatResponse {
+  return {
+    content,
+    citations: (data.citations as ChatResponse["citations"]) || [],
+    evidence: (data.evidence as ChatResponse["evidence"]) || [],
+    confidence: (data.confidence as string) || "Low",
+    confidenceScore: (data.confidence_score as number | undefined) ?? null,
+    confidenceFactors: (data.confidence_factors as ConfidenceFactors | undefined) ?? null,
+    retrieval: toRetrievalScores(data.retrieval as Record<string, unknown>[] | undefined),
+  };
+}
+
 /** Send a chat message with optional conversation history for multi-turn */
 export async function sendMessage(
   subjectId: string,
   question: string,
   conversationHistory?: { role: string; content: string }[],
   mode?: "chat" | "voice_call",
-): Promise<{ content: string; citations: any[]; evidence: any[]; confidence: string }> {
+): Promise<ChatResponse> {
   const { data, error } = await supabase.functions.invoke("chat", {
     body: { subject_id: subjectId, question, conversation_history: conversationHistory, mode: mode || "chat" },
   });
@@ -124,12 +475,78 @@ export async function sendMessage(
   if (error) throw new Error(error.message || "Failed to get response");
   if (data?.error) throw new Error(data.error);
 
-  return {
-    content: data.content || "",
-    citations: data.citations || [],
-    evidence: data.evidence || [],
-    confidence: data.confidence || "Medium",
-  };
+  return toChatResponse(data, data.content || "");
+}
+
+/**
+ * Ask a question and stream the answer as server-sent events. `onDelta`
+ * receives each piece of text as it arrives; the returned promise resolves
+ * with the full answer once the final `metadata` event (citations, evidence,
+ * confidence) has been received.
+ */
+export async function streamMessage(
+  subjectId: string,
+  question: string,
+  conversationHistory: { role: string; content: string }[],
+  onDelta: (text: string) => void,
+): Promise<ChatResponse> {
+  // functions.invoke can't stream, so send the user's token the way it would
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify({
+      subject_id: subjectId,
+      question,
+      conversation_history: conversationHistory,
+      mode: "chat",
+      stream: true,
+    }),
+  });
+
+  // Errors and the "no notes yet" reply come back as plain JSON
+  if (!response.ok || !response.headers.get("Content-Type")?.includes("text/event-stream")) {
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || data.error) throw new Error(data.error || "Failed to get response");
+    onDelta(data.content || "");
+    return toChatResponse(data, data.content || "");
+  }
+
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let content = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const event = block.match(/^event: (.*)$/m)?.[1];
+      const payload = block.match(/^data: (.*)$/m)?.[1];
+      if (!event || !payload) continue;
+      const data = JSON.parse(payload);
+
+      if (event === "delta") {
+        content += data.content;
+        onDelta(data.content);
+      } else if (event === "metadata") {
+        return toChatResponse(data, content);
+      } else if (event === "error") {
+        throw new Error(data.error || "Failed to get response");
+      }
+    }
+  }
+
+  throw new Error("The response ended before it was complete");
 }
 
 /** Transcribe audio using ElevenLabs STT */
@@ -177,37 +594,317 @@ export async function textToSpeech(text: string): Promise<HTMLAudioElement> {
   return audio;
 }
 
-export async function fetchDocuments(subjectId: string) {
+export type DocumentStatus = "queued" | "processing" | "failed" | "ready";
+
+export interface DocumentRecord {
+  id: string;
+  name: string;
+  size: number;
+  status: DocumentStatus;
+  error: string | null;
+  chunkCount: number;
+  updatedAt: Date;
+}
+
+// Matches reprocess-document: a process-document call is stopped long before
+// this, so a document still queued or processing was dropped
+const STALLED_AFTER_MS = 10 * 60 * 1000;
+
+/** Whether a queued or processing document has been left with nothing working on it */
+export function isStalled(doc: { id?: string; status: string; updatedAt?: Date }): boolean {
+  if (doc.status !== "queued" && doc.status !== "processing") return false;
+  // Still waiting its turn in this tab's processing queue
+  if (doc.id && processingHere.has(doc.id)) return false;
+  return !!doc.updatedAt && Date.now() - doc.updatedAt.getTime() > STALLED_AFTER_MS;
+}
+
+export async function fetchDocuments(subjectId: string): Promise<DocumentRecord[]> {
   const { data, error } = await supabase
     .from("documents")
-    .select("id, filename, file_size, created_at")
+    .select("id, filename, file_size, status, error, chunk_count, created_at, updated_at")
     .eq("subject_id", subjectId)
     .order("created_at");
   if (error) throw error;
-  return (data || []).map((d: any) => ({
+  return (data || []).map((d) => ({
     id: d.id,
     name: d.filename,
     size: d.file_size,
-    status: "done" as const,
+    status: d.status as DocumentStatus,
+    error: d.error,
+    chunkCount: d.chunk_count,
+    updatedAt: new Date(d.updated_at),
   }));
 }
 
-export async function generateStudyQuestions(subjectId: string): Promise<{ mcqs: MCQ[]; shortAnswers: ShortAnswer[] }> {
+/** Call onChange whenever a document of the subject is added, updated or removed */
+export function subscribeToDocuments(subjectId: string, onChange: () => void): () => void {
+  const channel = supabase
+    .channel(`documents:${subjectId}`)
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "documents", filter: `subject_id=eq.${subjectId}` },
+      () => onChange(),
+    )
+    .subscribe();
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+function toStudySet(row: Tables<"study_sets">): StudySet {
+  return {
+    id: row.id,
+    topic: row.topic,
+    difficulty: row.difficulty as Difficulty | null,
+    documentIds: row.document_ids,
+    createdAt: new Date(row.created_at),
+    questionCount: row.question_count,
+  };
+}
+
+/** Rebuild a set's questions from their shared columns and type-specific payload */
+function toStudySetContent(set: Tables<"study_sets">, rows: Tables<"study_questions">[]): StudySetContent {
+  const questions = [...rows]
+    .sort((a, b) => a.position - b.position)
+    .map((row) => ({
+      type: row.type,
+      question: {
+        ...(row.payload as Record<string, unknown>),
+        id: row.id,
+        question: row.question,
+        citation: row.citation,
+        quotedText: row.quoted_text ?? undefined,
+        quotedLines: row.quoted_lines ?? undefined,
+        verified: row.verified ?? undefined,
+        confidence: row.confidence,
+      },
+    }));
+
+  const ofType = <Q>(type: QuestionType) =>
+    questions.filter((q) => q.type === type).map((q) => q.question as unknown as Q);
+
+  return {
+    set: toStudySet(set),
+    mcqs: ofType<MCQ>("mcq"),
+    shortAnswers: ofType<ShortAnswer>("short_answer"),
+    trueFalse: ofType<TrueFalse>("true_false"),
+    cloze: ofType<Cloze>("cloze"),
+    matching: ofType<Matching>("matching"),
+    ordering: ofType<Ordering>("ordering"),
+  };
+}
+
+/** Saved study sets for a subject, newest first */
+export async function fetchStudySets(subjectId: string): Promise<StudySet[]> {
+  const { data, error } = await supabase
+    .from("study_sets")
+    .select("*")
+    .eq("subject_id", subjectId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data || []).map(toStudySet);
+}
+
+export async function fetchStudySet(setId: string): Promise<StudySetContent> {
+  const { data: set, error: setError } = await supabase
+    .from("study_sets")
+    .select("*")
+    .eq("id", setId)
+    .single();
+  if (setError) throw setError;
+
+  const { data: questions, error } = await supabase
+    .from("study_questions")
+    .select("*")
+    .eq("study_set_id", setId)
+    .order("position");
+  if (error) throw error;
+
+  return toStudySetContent(set, questions || []);
+}
+
+/** Record one answer of a quiz run. The database re-scores every type but short answers itself. */
+export async function recordQuizAnswer(attempt: {
+  runId: string;
+  studySetId: string;
+  subjectId: string;
+  questionId: string;
+  answer: string;
+  timeTakenMs: number;
+}) {
+  const { error } = await supabase.from("quiz_attempts").insert({
+    run_id: attempt.runId,
+    study_set_id: attempt.studySetId,
+    subject_id: attempt.subjectId,
+    question_id: attempt.questionId,
+    answer: attempt.answer,
+    time_taken_ms: Math.max(0, Math.round(attempt.timeTakenMs)),
+  });
+  if (error) throw error;
+}
+
+/**
+ * Grade a short answer against the question's model answer and notes. The
+ * grade-answer function records the attempt, grade included, in the run.
+ */
+export async function gradeShortAnswer(attempt: {
+  runId: string;
+  questionId: string;
+  answer: string;
+  timeTakenMs: number;
+}): Promise<ShortAnswerGrade> {
+  const { data, error } = await supabase.functions.invoke("grade-answer", {
+    body: {
+      run_id: attempt.runId,
+      question_id: attempt.questionId,
+      answer: attempt.answer,
+      time_taken_ms: attempt.timeTakenMs,
+    },
+  });
+  if (error) throw error;
+  return data.grade;
+}
+
+/** Past runs of a study set with their scores, newest first */
+export async function fetchQuizRuns(studySetId: string): Promise<QuizRun[]> {
+  // Runs are scored on their multiple-choice answers; graded short answers
+  // carry their own score and are left out
+  const { data, error } = await supabase
+    .from("quiz_attempts")
+    .select("run_id, is_correct, time_taken_ms, created_at")
+    .eq("study_set_id", studySetId)
+    .not("is_correct", "is", null)
+    .order("created_at");
+  if (error) throw error;
+
+  const runs = new Map<string, QuizRun>();
+  for (const row of data || []) {
+    const run = runs.get(row.run_id) ?? {
+      id: row.run_id,
+      startedAt: new Date(row.created_at),
+      answered: 0,
+      correct: 0,
+      timeTakenMs: 0,
+    };
+    run.answered++;
+    if (row.is_correct) run.correct++;
+    run.timeTakenMs += row.time_taken_ms ?? 0;
+    runs.set(row.run_id, run);
+  }
+  return [...runs.values()].reverse();
+}
+
+/**
+ * Generate a new set of questions; the study function saves it before
+ * returning. Options left out fall back to the function's defaults. Throws a
+ * StudyGenerationError when there are no notes to draw on or none of the
+ * generated questions pass validation.
+ */
+export async function generateStudyQuestions(
+  subjectId: string,
+  options: Partial<StudyOptions> = {},
+): Promise<StudySetContent> {
   const { data, error } = await supabase.functions.invoke("study", {
-    body: { subject_id: subjectId },
+    body: {
+      subject_id: subjectId,
+      ...Object.fromEntries(Object.entries(options.counts ?? {}).map(([type, count]) => [`${type}_count`, count])),
+      difficulty: options.difficulty,
+      topic: options.topic,
+      document_ids: options.documentIds,
+    },
   });
 
+  if (error instanceof FunctionsHttpError && error.context.status === 422) {
+    const body = await error.context.json().catch(() => ({}));
+    throw new StudyGenerationError(body.error || "No questions could be generated from these notes");
+  }
   if (error) throw error;
 
-  const mcqs = (data.mcqs || []).map((m: any, i: number) => ({
-    ...m,
-    id: m.id || String(i + 1),
-  }));
+  return {
+    ...toStudySetContent(data.study_set, data.questions || []),
+    retrieval: toRetrievalScores(data.retrieval as Record<string, unknown>[] | undefined),
+  };
+}
 
-  const shortAnswers = (data.shortAnswers || []).map((s: any, i: number) => ({
-    ...s,
-    id: s.id || String(i + 1),
-  }));
+function toFlashcard(row: Tables<"flashcards">): Flashcard {
+  return {
+    id: row.id,
+    front: row.front,
+    back: row.back,
+    citation: (row.citation as unknown as Flashcard["citation"]) ?? undefined,
+    quotedText: row.quoted_text ?? undefined,
+    quotedLines: row.quoted_lines ?? undefined,
+    verified: row.verified ?? undefined,
+    source: row.source as Flashcard["source"],
+    ease: row.ease,
+    intervalDays: row.interval_days,
+    repetitions: row.repetitions,
+    dueAt: new Date(row.due_at),
+    lastReviewedAt: row.last_reviewed_at ? new Date(row.last_reviewed_at) : null,
+  };
+}
+
+/** A subject's flashcard deck, soonest due first */
+export async function fetchFlashcards(subjectId: string): Promise<Flashcard[]> {
+  const { data, error } = await supabase
+    .from("flashcards")
+    .select("*")
+    .eq("subject_id", subjectId)
+    .order("due_at");
+  if (error) throw error;
+  return (data || []).map(toFlashcard);
+}
 
-  return { mcqs, shortAnswers };
+/** Write new cards from the subject's notes and add them to its deck */
+export async function generateFlashcards(subjectId: string, topic?: string): Promise<Flashcard[]> {
+  const { data, error } = await supabase.functions.invoke("flashcards", {
+    body: { subject_id: subjectId, topic },
+  });
+  if (error) throw error;
+  return (data.flashcards || []).map(toFlashcard);
+}
+
+/** Add a card made from a chat answer or study question */
+export async function createFlashcard(subjectId: string, card: NewFlashcard): Promise<Flashcard> {
+  const { data, error } = await supabase
+    .from("flashcards")
+    .insert({
+      subject_id: subjectId,
+      front: card.front,
+      back: card.back,
+      citation: (card.citation as unknown as Json) ?? null,
+      quoted_text: card.quotedText ?? null,
+      quoted_lines: card.quotedLines ?? null,
+      verified: card.verified ?? null,
+      source: card.source,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return toFlashcard(data);
+}
+
+/** Grade a review and save the card's next SM-2 due date */
+export async function reviewFlashcard(card: Flashcard, grade: ReviewGrade): Promise<Flashcard> {
+  const now = new Date();
+  const next = schedule(card, GRADE_QUALITY[grade], now);
+  const { data, error } = await supabase
+    .from("flashcards")
+    .update({
+      ease: next.ease,
+      interval_days: next.intervalDays,
+      repetitions: next.repetitions,
+      due_at: next.dueAt.toISOString(),
+      last_reviewed_at: now.toISOString(),
+    })
+    .eq("id", card.id)
+    .select()
+    .single();
+  if (error) throw error;
+  return toFlashcard(data);
+}
+
+export async function deleteFlashcard(id: string) {
+  const { error } = await supabase.from("flashcards").delete().eq("id", id);
+  if (error) throw error;
 }
@@ -0,0 +1,43 @@
+import type { SourceTarget } from "@/components/DocumentViewer";
+
+/** Slide decks are cited by slide, everything else by page */
+export function isSlideDeck(filename?: string): boolean {
+  return !!filename && filename.toLowerCase().endsWith(".pptx");
+}
+
+/**
+ * Human label for a cited location, e.g. "Page 4", "Slide 12" or, in short
+ * form, "p.4". Labels the model already spelled out are passed through.
+ */
+export function locationLabel(filename: string | undefined, page: string | number | undefined, short = false): string {
+  if (page === undefined || page === null || page === "") return "";
+  const value = String(page).trim();
+  if (!/^\d+(\s*-\s*\d+)?$/.test(value)) return value;
+  if (isSlideDeck(filename)) return `Slide ${value}`;
+  return short ? `p.${value}` : `Page ${value}`;
+}
+
+/** "notes.pdf, Page 4, L12-L15", leaving out whatever isn't known */
+export function citationLabel(
+  citation: { filename: string; page?: string; lines?: string },
+  short = false,
+): string {
+  return [citation.filename, locationLabel(citation.filename, citation.page, short), citation.lines]
+    .filter(Boolean)
+    .join(", ");
+}
+
+/** Where the document viewer should open for a citation and, optionally, a quote from it */
+export function sourceOf(
+  citation: { document_id?: string; filename: string; page?: string; lines?: string },
+  quote?: string,
+  lines?: string,
+): SourceTarget {
+  return {
+    documentId: citation.document_id,
+    filename: citation.filename,
+    page: citation.page,
+    lines: lines || citation.lines,
+    quote,
+  };
+}
@@ -0,0 +1,67 @@
+import { MATCH_THRESHOLD, MIN_QUOTE_WORDS } from "../../supabase/functions/_shared/quote-rules.ts";
+
+/** A word of the text being searched, tagged with where it came from */
+export interface LocatedWord<T> {
+  word: string;
+  at: T;
+}
+
+/** Lowercased letter/number runs, the unit quotes are compared in */
+export function wordsOf(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Find the stretch of `words` a quote most likely came from: slide a window
+ * the quote's length over the text and score the share of the quote's words
+ * inside it, which tolerates the trimming and re-punctuation models apply to
+ * quotes. Returns the first and last matching word, or null below `threshold`
+ * or for a quote too short to place. The same scoring and limits as the
+ * server's quote verification, so what it verified is what gets highlighted.
+ */
+export function findQuote<T>(
+  words: LocatedWord<T>[],
+  quote: string,
+  threshold = MATCH_THRESHOLD,
+): { start: LocatedWord<T>; end: LocatedWord<T> } | null {
+  const wanted = wordsOf(quote);
+  if (wanted.length < MIN_QUOTE_WORDS || words.length === 0) return null;
+
+  const needed = new Map<string, number>();
+  for (const w of wanted) needed.set(w, (needed.get(w) || 0) + 1);
+
+  const width = Math.min(wanted.length, words.length);
+  const seen = new Map<string, number>();
+  let hits = 0;
+  let best = { score: 0, end: -1 };
+
+  for (let i = 0; i < words.length; i++) {
+    const added = words[i].word;
+    const count = (seen.get(added) || 0) + 1;
+    seen.set(added, count);
+    if (count <= (needed.get(added) || 0)) hits++;
+
+    if (i >= width) {
+      const dropped = words[i - width].word;
+      const left = seen.get(dropped)!;
+      seen.set(dropped, left - 1);
+      if (left <= (needed.get(dropped) || 0)) hits--;
+    }
+
+    if (i >= width - 1 && hits / wanted.length > best.score) {
+      best = { score: hits / wanted.length, end: i };
+    }
+  }
+
+  if (best.score < threshold) return null;
+  return { start: words[best.end - width + 1], end: words[best.end] };
+}
+
+/** Parse a cited line range like "L12-L15" or "L7"; null for anything else */
+export function parseLineRange(lines: string | undefined): [number, number] | null {
+  const match = lines?.trim().match(/^L?(\d+)(?:\s*[-–]\s*L?(\d+))?$/i);
+  if (!match) return null;
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : start;
+  return start <= end ? [start, end] : [end, start];
+}
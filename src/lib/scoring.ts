@@ -0,0 +1,41 @@
+// Scoring for the question types answered by typing, matching or ordering.
+// The database scores the same answers when they're recorded (see
+// score_quiz_attempt), so the rules here must stay in step with it.
+
+/** Typed answers match regardless of case and spacing */
+export function normalizeAnswer(answer: string): string {
+  return answer.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/** Whether each given answer matches the expected one in the same place */
+export function matchAnswers(given: string[], expected: string[]): boolean[] {
+  return expected.map((e, i) => given[i] !== undefined && normalizeAnswer(given[i]) === normalizeAnswer(e));
+}
+
+export function allMatch(given: string[], expected: string[]): boolean {
+  return given.length === expected.length && matchAnswers(given, expected).every(Boolean);
+}
+
+/** Read back an answer recorded as a JSON array of strings */
+export function parseListAnswer(answer: string | undefined): string[] | undefined {
+  if (answer === undefined) return undefined;
+  try {
+    const parsed = JSON.parse(answer);
+    return Array.isArray(parsed) ? parsed.map(String) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** A shuffled copy, never in the original order when there's more than one item */
+export function shuffled<T>(items: T[], random = Math.random): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  if (copy.length > 1 && copy.every((item, i) => item === items[i])) {
+    copy.push(copy.shift()!);
+  }
+  return copy;
+}
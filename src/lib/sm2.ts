@@ -0,0 +1,58 @@
+/** A card's place in the SM-2 schedule */
+export interface Sm2State {
+  /** Multiplier applied to the interval after each successful review, at least 1.3 */
+  ease: number;
+  intervalDays: number;
+  /** Successful reviews in a row */
+  repetitions: number;
+  dueAt: Date;
+}
+
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+/** SM-2 recall quality (0–5) for each review button; below 3 counts as forgotten */
+export const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Schedule a card's next review with SM-2: a forgotten card starts over at a
+ * one-day interval, a recalled one waits 1 day, then 6, then the previous
+ * interval times its ease. Ease moves with every review, more for harder
+ * recalls, and never drops below 1.3.
+ */
+export function schedule(state: Omit<Sm2State, "dueAt">, quality: number, now = new Date()): Sm2State {
+  const q = Math.min(5, Math.max(0, Math.round(quality)));
+
+  let repetitions: number;
+  let intervalDays: number;
+  if (q < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = state.repetitions + 1;
+    if (repetitions === 1) intervalDays = 1;
+    else if (repetitions === 2) intervalDays = 6;
+    else intervalDays = Math.round(state.intervalDays * state.ease);
+  }
+
+  const ease = Math.max(MIN_EASE, state.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  return {
+    ease: Math.round(ease * 100) / 100,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+  };
+}
+
+export function isDue(state: Pick<Sm2State, "dueAt">, now = new Date()): boolean {
+  return state.dueAt.getTime() <= now.getTime();
+}
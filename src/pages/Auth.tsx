@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Navigate } from "react-router-dom";
+import { GraduationCap, Loader2, Mail } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
+import { sendMagicLink, signIn, signUp } from "@/lib/api";
+
+type Mode = "signin" | "signup";
+
+export default function Auth() {
+  const { session, loading } = useAuth();
+  const [mode, setMode] = useState<Mode>("signin");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+
+  if (!loading && session) return <Navigate to="/" replace />;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !password) return;
+    run(async () => {
+      if (mode === "signin") {
+        await signIn(email.trim(), password);
+        return;
+      }
+      const needsConfirmation = await signUp(email.trim(), password);
+      if (needsConfirmation) setLinkSentTo(email.trim());
+    });
+  };
+
+  const handleMagicLink = () => {
+    if (!email.trim()) {
+      toast.error("Enter your email first");
+      return;
+    }
+    run(async () => {
+      await sendMagicLink(email.trim());
+      setLinkSentTo(email.trim());
+    });
+  };
+
+  return (
+    <div className="flex min-h-screen bg-background items-center justify-center p-6">
+      <div className="w-full max-w-sm animate-fade-in">
+        <div className="flex flex-col items-center text-center mb-8">
+          <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mb-4">
+            <GraduationCap className="w-8 h-8 text-primary" />
+          </div>
+          <h1 className="font-display text-2xl font-bold text-foreground mb-2">AskMyNotes</h1>
+          <p className="text-muted-foreground text-sm">
+            {mode === "signin" ? "Sign in to your notes" : "Create an account to keep your notes on every device"}
+          </p>
+        </div>
+
+        {linkSentTo ? (
+          <div className="bg-card border border-border rounded-xl p-6 shadow-sm text-center space-y-3">
+            <Mail className="w-8 h-8 text-primary mx-auto" />
+            <p className="text-sm text-foreground">
+              Check <span className="font-medium">{linkSentTo}</span> for a link to continue.
+            </p>
+            <button onClick={() => setLinkSentTo(null)} className="text-xs text-primary hover:underline">
+              Use a different email
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="bg-card border border-border rounded-xl p-6 shadow-sm space-y-4">
+            <input
+              type="email"
+              autoFocus
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              className="w-full px-4 py-3 rounded-lg bg-secondary text-foreground placeholder:text-muted-foreground border border-border focus:outline-none focus:ring-2 focus:ring-primary/40 text-sm"
+            />
+            <input
+              type="password"
+              autoComplete={mode === "signin" ? "current-password" : "new-password"}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              className="w-full px-4 py-3 rounded-lg bg-secondary text-foreground placeholder:text-muted-foreground border border-border focus:outline-none focus:ring-2 focus:ring-primary/40 text-sm"
+            />
+            <button
+              type="submit"
+              disabled={busy || !email.trim() || !password}
+              className="w-full px-4 py-3 rounded-lg bg-primary text-primary-foreground text-sm font-medium disabled:opacity-40 hover:opacity-90 transition-opacity flex items-center justify-center gap-2"
+            >
+              {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+              {mode === "signin" ? "Sign in" : "Create account"}
+            </button>
+
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <div className="h-px flex-1 bg-border" />
+              or
+              <div className="h-px flex-1 bg-border" />
+            </div>
+
+            <button
+              type="button"
+              onClick={handleMagicLink}
+              disabled={busy}
+              className="w-full px-4 py-3 rounded-lg bg-secondary text-foreground text-sm font-medium disabled:opacity-40 hover:bg-secondary/80 transition-colors flex items-center justify-center gap-2"
+            >
+              <Mail className="w-4 h-4" />
+              Email me a sign-in link
+            </button>
+
+            <p className="text-center text-xs text-muted-foreground">
+              {mode === "signin" ? "New here?" : "Already have an account?"}{" "}
+              <button
+                type="button"
+                onClick={() => setMode(mode === "signin" ? "signup" : "signin")}
+                className="text-primary font-medium hover:underline"
+              >
+                {mode === "signin" ? "Create an account" : "Sign in"}
+              </button>
+            </p>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
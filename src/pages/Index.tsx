@@ -1,10 +1,15 @@
-import { useState, useCallback, useEffect } from "react";
-import { MessageSquare, GraduationCap, Upload, BookOpen, FileText, Brain, Sparkles, Phone } from "lucide-react";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { MessageSquare, GraduationCap, Upload, BookOpen, FileText, Brain, Sparkles, Phone, LogOut, Layers } from "lucide-react";
 import { SubjectManager, type Subject } from "@/components/SubjectManager";
 import { FileUpload } from "@/components/FileUpload";
 import { ChatInterface, type ChatMessage } from "@/components/ChatInterface";
-import { StudyMode, type MCQ, type ShortAnswer } from "@/components/StudyMode";
+import { StudyMode, type StudySetContent } from "@/components/StudyMode";
+import { Flashcards, type NewFlashcard } from "@/components/Flashcards";
+import type { StudyOptions } from "@/components/StudyOptionsForm";
 import { VoiceCall } from "@/components/VoiceCall";
+import { DocumentViewer, type SourceTarget } from "@/components/DocumentViewer";
+import { ClaimDataBanner } from "@/components/ClaimDataBanner";
+import { useAuth } from "@/hooks/use-auth";
 import { toast } from "sonner";
 import {
   fetchSubjects,
@@ -12,11 +17,20 @@ import {
   deleteSubject as apiDeleteSubject,
   uploadFile,
   fetchMessages,
-  sendMessage,
+  streamMessage,
+  signOut,
   generateStudyQuestions,
+  fetchStudySets,
+  fetchStudySet,
+  fetchQuota,
+  resumeStalledDocuments,
+  createFlashcard,
+  QuotaError,
+  StudyGenerationError,
+  type Quota,
 } from "@/lib/api";
 
-type Tab = "chat" | "study" | "call";
+type Tab = "chat" | "study" | "cards" | "call";
 
 export default function Index() {
   const [subjects, setSubjects] = useState<Subject[]>([]);
@@ -24,13 +38,36 @@ export default function Index() {
   const [activeTab, setActiveTab] = useState<Tab>("chat");
   
   const [messages, setMessages] = useState<Record<string, ChatMessage[]>>({});
-  const [studyData, setStudyData] = useState<Record<string, { mcqs: MCQ[]; shortAnswers: ShortAnswer[] }>>({});
+  const [studyData, setStudyData] = useState<Record<string, StudySetContent>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [openSource, setOpenSource] = useState<SourceTarget | null>(null);
   const [onboardingName, setOnboardingName] = useState("");
+  const [quota, setQuota] = useState<Quota | null>(null);
 
-  useEffect(() => {
+  const { user } = useAuth();
+
+  const loadSubjects = useCallback(() => {
     fetchSubjects().then(setSubjects).catch(() => toast.error("Failed to load subjects"));
+    fetchQuota().then(setQuota).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    loadSubjects();
+  }, [loadSubjects]);
+
+  // Documents queued with nothing to run them start on sign-in, so ones in a
+  // subject that isn't opened still get indexed
+  useEffect(() => {
+    resumeStalledDocuments().catch(() => {});
+  }, []);
+
+  const handleSignOut = useCallback(async () => {
+    try {
+      await signOut();
+    } catch {
+      toast.error("Failed to sign out");
+    }
   }, []);
 
   useEffect(() => {
@@ -41,18 +78,22 @@ export default function Index() {
       .catch(() => {});
   }, [activeSubject?.id]);
 
+  // The database enforces the limit; until the quota loads, assume the default
+  const maxSubjects = quota?.maxSubjects ?? 3;
+
   const createSubject = useCallback(async (name: string) => {
-    if (subjects.length >= 3) return;
     try {
       const newSubject = await apiCreateSubject(name);
       setSubjects((prev) => [...prev, newSubject]);
       setActiveSubject(newSubject);
       
       setOnboardingName("");
-    } catch {
+    } catch (error) {
+      // Quota errors are shown where the subject was asked for
+      if (error instanceof QuotaError) throw error;
       toast.error("Failed to create subject");
     }
-  }, [subjects]);
+  }, []);
 
   const deleteSubject = useCallback(async (id: string) => {
     try {
@@ -69,19 +110,38 @@ export default function Index() {
     const results = await Promise.allSettled(
       files.map((file) => uploadFile(activeSubject.id, file))
     );
-    results.forEach((r, i) => {
-      if (r.status === "rejected") {
+    let quotaError: QuotaError | null = null;
+    for (const [i, r] of results.entries()) {
+      if (r.status !== "rejected") continue;
+      if (r.reason instanceof QuotaError) {
+        quotaError = r.reason;
+      } else {
         toast.error(`Failed to upload ${files[i].name}`);
         console.error(r.reason);
       }
-    });
+    }
     const updated = await fetchSubjects();
     setSubjects(updated);
     const refreshed = updated.find((s) => s.id === activeSubject.id);
     if (refreshed) setActiveSubject(refreshed);
-    toast.success("Files uploaded & processed");
+    if (results.some((r) => r.status === "fulfilled")) {
+      toast.success("Files uploaded — processing has started");
+    }
+    // FileUpload shows which limit was hit
+    if (quotaError) throw quotaError;
   }, [activeSubject]);
 
+  const refreshSubjects = useCallback(async () => {
+    try {
+      const updated = await fetchSubjects();
+      setSubjects(updated);
+      const refreshed = updated.find((s) => s.id === activeSubject?.id);
+      if (refreshed) setActiveSubject(refreshed);
+    } catch {
+      toast.error("Failed to refresh subjects");
+    }
+  }, [activeSubject?.id]);
+
   const handleSend = useCallback(async (content: string) => {
     if (!activeSubject) return;
     const subjectId = activeSubject.id;
@@ -100,54 +160,126 @@ export default function Index() {
 
     setIsLoading(true);
 
+    // The assistant message is added on the first delta and grows in place
+    const assistantId = crypto.randomUUID();
+    const updateAssistant = (update: (msg: ChatMessage) => ChatMessage) =>
+      setMessages((prev) => {
+        const list = prev[subjectId] || [];
+        if (list.some((m) => m.id === assistantId)) {
+          return { ...prev, [subjectId]: list.map((m) => (m.id === assistantId ? update(m) : m)) };
+        }
+        const placeholder: ChatMessage = {
+          id: assistantId,
+          role: "assistant",
+          content: "",
+          timestamp: new Date(),
+          streaming: true,
+        };
+        return { ...prev, [subjectId]: [...list, update(placeholder)] };
+      });
+
     try {
       // Build conversation history from recent messages for multi-turn context
       const history = (messages[subjectId] || []).slice(-10).map((m) => ({
         role: m.role,
         content: m.content,
       }));
-      const result = await sendMessage(subjectId, content, history);
-      const assistantMsg: ChatMessage = {
-        id: crypto.randomUUID(),
-        role: "assistant",
+      const result = await streamMessage(subjectId, content, history, (delta) =>
+        updateAssistant((m) => ({ ...m, content: m.content + delta }))
+      );
+      updateAssistant((m) => ({
+        ...m,
         content: result.content,
         citations: result.citations,
         evidence: result.evidence,
-        confidence: result.confidence as any,
-        timestamp: new Date(),
-      };
+        confidence: result.confidence as ChatMessage["confidence"],
+        confidenceScore: result.confidenceScore ?? undefined,
+        confidenceFactors: result.confidenceFactors ?? undefined,
+        streaming: false,
+      }));
+    } catch (e: unknown) {
+      // Keep whatever text already arrived, just stop showing it as live
       setMessages((prev) => ({
         ...prev,
-        [subjectId]: [...(prev[subjectId] || []), assistantMsg],
+        [subjectId]: (prev[subjectId] || []).map((m) => (m.id === assistantId ? { ...m, streaming: false } : m)),
       }));
-    } catch (e: any) {
-      toast.error(e.message || "Failed to get response");
+      toast.error((e instanceof Error && e.message) || "Failed to get response");
     } finally {
       setIsLoading(false);
     }
   }, [activeSubject]);
 
-  const handleGenerateStudy = useCallback(async () => {
+  // Reopen the subject's latest saved set, so a reload doesn't lose the quiz.
+  // Looked up once per subject; a set opened or generated meanwhile wins.
+  const studySetsLookedUp = useRef(new Set<string>());
+  const activeSubjectId = activeSubject?.id;
+  useEffect(() => {
+    if (!activeSubjectId || studySetsLookedUp.current.has(activeSubjectId)) return;
+    studySetsLookedUp.current.add(activeSubjectId);
+    fetchStudySets(activeSubjectId)
+      .then((sets) => (sets.length > 0 ? fetchStudySet(sets[0].id) : null))
+      .then((content) => {
+        if (content) {
+          setStudyData((prev) => (prev[activeSubjectId] ? prev : { ...prev, [activeSubjectId]: content }));
+        }
+      })
+      .catch(() => studySetsLookedUp.current.delete(activeSubjectId));
+  }, [activeSubjectId]);
+
+  const openStudySet = useCallback(async (setId: string) => {
+    if (!activeSubject) return;
+    try {
+      const content = await fetchStudySet(setId);
+      setStudyData((prev) => ({ ...prev, [activeSubject.id]: content }));
+    } catch {
+      toast.error("Failed to open study set");
+    }
+  }, [activeSubject]);
+
+  const handleGenerateStudy = useCallback(async (options: StudyOptions) => {
     if (!activeSubject) return;
     setIsGenerating(true);
     try {
-      const result = await generateStudyQuestions(activeSubject.id);
+      const result = await generateStudyQuestions(activeSubject.id, options);
       setStudyData((prev) => ({ ...prev, [activeSubject.id]: result }));
-    } catch {
-      toast.error("Failed to generate questions");
+      // Questions that failed validation even after retries are left out
+      const requested = Object.values(options.counts).reduce((sum, n) => sum + n, 0);
+      if (result.set.questionCount < requested) {
+        toast.warning(`Only ${result.set.questionCount} of ${requested} questions checked out against your notes`);
+      }
+    } catch (error) {
+      toast.error(error instanceof StudyGenerationError ? error.message : "Failed to generate questions");
     } finally {
       setIsGenerating(false);
     }
   }, [activeSubject]);
 
+  const handleMakeCard = useCallback(async (card: NewFlashcard) => {
+    if (!activeSubject) return;
+    try {
+      await createFlashcard(activeSubject.id, card);
+      toast.success("Added to flashcards");
+    } catch (error) {
+      toast.error("Failed to make card");
+      throw error;
+    }
+  }, [activeSubject]);
+
   const currentMessages = activeSubject ? messages[activeSubject.id] || [] : [];
   const currentStudy = activeSubject ? studyData[activeSubject.id] : undefined;
 
   // ── No subjects: full-screen onboarding ──
   if (subjects.length === 0) {
+    const createOnboardingSubject = () =>
+      createSubject(onboardingName.trim()).catch((error: Error) => toast.error(error.message));
+
     return (
       <div className="flex h-screen bg-background items-center justify-center p-6">
         <div className="w-full max-w-md animate-fade-in">
+          <div className="mb-6">
+            <ClaimDataBanner onClaimed={loadSubjects} />
+          </div>
+
           <div className="flex flex-col items-center text-center mb-8">
             <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mb-4">
               <GraduationCap className="w-8 h-8 text-primary" />
@@ -161,20 +293,20 @@ export default function Index() {
           <div className="bg-card border border-border rounded-xl p-6 shadow-sm space-y-4">
             <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground uppercase tracking-wider">
               <BookOpen className="w-4 h-4" />
-              Create a subject ({subjects.length}/3 created)
+              Create a subject ({subjects.length}/{maxSubjects} created)
             </div>
             <input
               autoFocus
               value={onboardingName}
               onChange={(e) => setOnboardingName(e.target.value)}
               onKeyDown={(e) => {
-                if (e.key === "Enter" && onboardingName.trim()) createSubject(onboardingName.trim());
+                if (e.key === "Enter" && onboardingName.trim()) createOnboardingSubject();
               }}
               placeholder="e.g. Biology, History, Physics..."
               className="w-full px-4 py-3 rounded-lg bg-secondary text-foreground placeholder:text-muted-foreground border border-border focus:outline-none focus:ring-2 focus:ring-primary/40 text-sm"
             />
             <button
-              onClick={() => onboardingName.trim() && createSubject(onboardingName.trim())}
+              onClick={() => onboardingName.trim() && createOnboardingSubject()}
               disabled={!onboardingName.trim()}
               className="w-full px-4 py-3 rounded-lg bg-primary text-primary-foreground text-sm font-medium disabled:opacity-40 hover:opacity-90 transition-opacity"
             >
@@ -195,6 +327,13 @@ export default function Index() {
               </div>
             ))}
           </div>
+
+          <p className="mt-6 text-center text-xs text-muted-foreground">
+            Signed in as {user?.email}.{" "}
+            <button onClick={handleSignOut} className="text-primary hover:underline">
+              Sign out
+            </button>
+          </p>
         </div>
       </div>
     );
@@ -210,6 +349,13 @@ export default function Index() {
               <GraduationCap className="w-4 h-4 text-primary-foreground" />
             </div>
             <h1 className="font-display text-lg font-bold text-foreground">AskMyNotes</h1>
+            <button
+              onClick={handleSignOut}
+              className="ml-auto p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+              title={user?.email ? `Sign out ${user.email}` : "Sign out"}
+            >
+              <LogOut className="w-4 h-4" />
+            </button>
           </div>
         </div>
 
@@ -217,6 +363,7 @@ export default function Index() {
           <SubjectManager
             subjects={subjects}
             activeSubject={activeSubject}
+            maxSubjects={maxSubjects}
             onSelectSubject={(s) => setActiveSubject(s)}
             onCreateSubject={createSubject}
             onDeleteSubject={deleteSubject}
@@ -225,7 +372,12 @@ export default function Index() {
 
         {activeSubject && (
           <div className="p-4 border-t border-border">
-            <FileUpload subjectId={activeSubject.id} subjectName={activeSubject.name} onUpload={handleUpload} />
+            <FileUpload
+              subjectId={activeSubject.id}
+              subjectName={activeSubject.name}
+              onUpload={handleUpload}
+              onDocumentsChange={refreshSubjects}
+            />
           </div>
         )}
       </aside>
@@ -257,6 +409,15 @@ export default function Index() {
                   <GraduationCap className="w-3.5 h-3.5" />
                   <span className="hidden sm:inline">Study</span>
                 </button>
+                <button
+                  onClick={() => setActiveTab("cards")}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-colors min-h-[36px] ${
+                    activeTab === "cards" ? "bg-card text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+                  }`}
+                >
+                  <Layers className="w-3.5 h-3.5" />
+                  <span className="hidden sm:inline">Cards</span>
+                </button>
                 <button
                   onClick={() => setActiveTab("call")}
                   className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-colors min-h-[36px] ${
@@ -273,6 +434,10 @@ export default function Index() {
           )}
         </header>
 
+        <div className="px-4 pt-3 empty:hidden">
+          <ClaimDataBanner onClaimed={loadSubjects} />
+        </div>
+
         <div className="flex-1 min-h-0 h-full">
           {!activeSubject ? (
             <div className="flex flex-col items-center justify-center h-full text-center p-6 animate-fade-in">
@@ -285,7 +450,11 @@ export default function Index() {
               messages={currentMessages}
               onSend={handleSend}
               isLoading={isLoading}
+              onOpenSource={setOpenSource}
+              onMakeCard={handleMakeCard}
             />
+          ) : activeTab === "cards" ? (
+            <Flashcards subjectId={activeSubject.id} subjectName={activeSubject.name} onOpenSource={setOpenSource} />
           ) : activeTab === "call" ? (
             <VoiceCall
               subjectId={activeSubject.id}
@@ -295,15 +464,29 @@ export default function Index() {
             />
           ) : (
             <StudyMode
+              subjectId={activeSubject.id}
               subjectName={activeSubject.name}
+              studySet={currentStudy?.set}
               mcqs={currentStudy?.mcqs || []}
               shortAnswers={currentStudy?.shortAnswers || []}
+              trueFalse={currentStudy?.trueFalse || []}
+              cloze={currentStudy?.cloze || []}
+              matching={currentStudy?.matching || []}
+              ordering={currentStudy?.ordering || []}
+              retrieval={currentStudy?.retrieval}
               onGenerate={handleGenerateStudy}
+              onOpenSet={openStudySet}
               isGenerating={isGenerating}
+              onOpenSource={setOpenSource}
+              onMakeCard={handleMakeCard}
             />
           )}
         </div>
       </main>
+
+      {activeSubject && (
+        <DocumentViewer subjectId={activeSubject.id} target={openSource} onClose={() => setOpenSource(null)} />
+      )}
     </div>
   );
 }
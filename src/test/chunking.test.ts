@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { chunkPages } from "../../supabase/functions/process-document/chunking.ts";
+
+describe("chunkPages", () => {
+  it("starts a chunk at each heading and records the section", () => {
+    const chunks = chunkPages([
+      {
+        page_number: null,
+        text: "# Cells\nCells are the unit of life.\n\n## Membranes\nMembranes control what enters the cell.",
+      },
+    ]);
+    expect(chunks.map((c) => [c.heading_path, c.line_start, c.line_end])).toEqual([
+      ["Cells", 1, 2],
+      ["Cells > Membranes", 4, 5],
+    ]);
+    expect(chunks[1].content).toBe("## Membranes\nMembranes control what enters the cell.");
+  });
+
+  it("numbers lines through the whole document, skipped pages included", () => {
+    const chunks = chunkPages([
+      { page_number: 1, text: "Enzymes speed up reactions.\nThey are not used up." },
+      { page_number: 2, text: "\n4\n" },
+      { page_number: 3, text: "Heat denatures most enzymes.", ocr_confidence: 0.9 },
+    ]);
+    expect(chunks).toMatchObject([
+      { page_number: 1, line_start: 1, line_end: 2, ocr_confidence: null },
+      { page_number: 3, line_start: 6, line_end: 6, ocr_confidence: 0.9 },
+    ]);
+  });
+
+  it("closes an over-full chunk at a sentence end and keeps the line ranges", () => {
+    const sentence = (n: number) => `Sentence ${n} ${"describes the cell cycle in detail ".repeat(12).trim()}.`;
+    const text = [1, 2, 3, 4].map(sentence).join("\n");
+    const chunks = chunkPages([{ page_number: 1, text }]);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((c) => {
+      expect(c.content.length).toBeLessThanOrEqual(1200);
+      expect(c.content.endsWith(".")).toBe(true);
+      expect(c.content.split("\n")).toHaveLength(c.line_end - c.line_start + 1);
+    });
+    expect(chunks[0].line_start).toBe(1);
+    expect(chunks[chunks.length - 1].line_end).toBe(4);
+  });
+
+  it("treats # lines inside a code fence as code", () => {
+    const chunks = chunkPages([{ page_number: null, text: "# Setup\n```\n# install the tools\nnpm install\n```" }]);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].heading_path).toBe("Setup");
+  });
+});
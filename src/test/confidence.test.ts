@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import type { ContextSource } from "../../supabase/functions/_shared/context.ts";
+import type { RetrievedChunk } from "../../supabase/functions/_shared/retrieval.ts";
+import { scoreConfidence } from "../../supabase/functions/_shared/confidence.ts";
+import type { Evidence } from "../../supabase/functions/_shared/verify.ts";
+
+const source = (id: string, chunk: Partial<RetrievedChunk> = {}): ContextSource => ({
+  chunk: {
+    id,
+    document_id: "doc-1",
+    content: "",
+    page_number: 1,
+    chunk_index: 0,
+    heading_path: null,
+    ocr_confidence: null,
+    line_start: 1,
+    line_end: 1,
+    similarity: null,
+    keyword_score: null,
+    semantic_rank: null,
+    keyword_rank: null,
+    score: 0,
+    ...chunk,
+  },
+  filename: "biology.pdf",
+  firstLine: 1,
+});
+
+const answer = "Photosynthesis happens inside chloroplasts. Light energy splits water molecules.";
+const quotes: Evidence[] = [
+  { quote: "Photosynthesis takes place inside the chloroplasts", verified: true, chunk_id: "close" },
+  { quote: "Light energy splits water into oxygen", verified: true, chunk_id: "close" },
+];
+
+describe("scoreConfidence", () => {
+  it("rates a closely retrieved, fully quoted answer High", () => {
+    const confidence = scoreConfidence(answer, [], quotes, [source("close", { similarity: 0.9 })]);
+    expect(confidence).toEqual({
+      label: "High",
+      score: 1,
+      factors: { retrieval: 1, verification: 1, coverage: 1, ocr: 1 },
+    });
+  });
+
+  it("rates an answer with no verified quotes Low", () => {
+    const unverified = quotes.map((e) => ({ ...e, verified: false }));
+    const confidence = scoreConfidence(answer, [], unverified, [source("close", { similarity: 0.8 })]);
+    expect(confidence.label).toBe("Low");
+    expect(confidence.factors).toMatchObject({ verification: 0, coverage: 0 });
+    expect(confidence.factors.retrieval).toBeCloseTo(0.33, 2);
+  });
+
+  it("scores only the chunks the verified quotes came from", () => {
+    const sources = [source("close", { similarity: 0.9 }), source("far", { similarity: 0.76, ocr_confidence: 0.3 })];
+    expect(scoreConfidence(answer, [], quotes, sources).factors).toMatchObject({ retrieval: 1, ocr: 1 });
+  });
+
+  it("gives keyword-only matches a middling retrieval strength", () => {
+    const confidence = scoreConfidence(answer, [], [], [source("keyword", { keyword_rank: 1 })]);
+    expect(confidence.factors.retrieval).toBe(0.5);
+  });
+
+  it("caps the label by the weakest OCR confidence", () => {
+    const scanned = (ocr: number) => [source("close", { similarity: 0.9, ocr_confidence: ocr })];
+    expect(scoreConfidence(answer, [], quotes, scanned(0.7)).label).toBe("Medium");
+    expect(scoreConfidence(answer, [], quotes, scanned(0.5)).label).toBe("Low");
+  });
+});
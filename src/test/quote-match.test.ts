@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { findQuote, parseLineRange, wordsOf, type LocatedWord } from "@/lib/quote-match";
+
+/** Words of each line, tagged with the line's number from 1 */
+const located = (...lines: string[]): LocatedWord<number>[] =>
+  lines.flatMap((line, i) => wordsOf(line).map((word) => ({ word, at: i + 1 })));
+
+const notes = located(
+  "Photosynthesis takes place in the chloroplasts.",
+  "Light energy splits water into oxygen and hydrogen ions.",
+  "The Calvin cycle then fixes carbon dioxide into sugars.",
+);
+
+describe("findQuote", () => {
+  it("finds an exact quote", () => {
+    const match = findQuote(notes, "Light energy splits water into oxygen");
+    expect(match?.start).toEqual({ word: "light", at: 2 });
+    expect(match?.end).toEqual({ word: "oxygen", at: 2 });
+  });
+
+  it("finds a quote across lines regardless of case and punctuation", () => {
+    const match = findQuote(notes, "hydrogen IONS... the Calvin cycle");
+    expect(match?.start.at).toBe(2);
+    expect(match?.end.at).toBe(3);
+  });
+
+  it("tolerates a lightly reworded quote", () => {
+    const match = findQuote(notes, "the Calvin cycle fixes carbon dioxide into glucose");
+    expect(match?.start.at).toBe(3);
+    expect(match?.end.word).toBe("into");
+  });
+
+  it("returns null for a quote that isn't there", () => {
+    expect(findQuote(notes, "mitochondria produce ATP through respiration")).toBeNull();
+  });
+
+  it("returns null for an empty quote or text", () => {
+    expect(findQuote(notes, " ... ")).toBeNull();
+    expect(findQuote([], "Light energy")).toBeNull();
+  });
+
+  it("returns null for a quote too short to place", () => {
+    expect(findQuote(notes, "Calvin cycle")).toBeNull();
+    expect(findQuote(notes, "into oxygen and")).toBeNull();
+  });
+
+  it("respects the threshold", () => {
+    // Half the words match
+    const quote = "light energy splits rocks and sand";
+    expect(findQuote(notes, quote)).toBeNull();
+    expect(findQuote(notes, quote, 0.5)?.end).toEqual({ word: "splits", at: 2 });
+  });
+});
+
+describe("parseLineRange", () => {
+  it("parses a range and a single line", () => {
+    expect(parseLineRange("L12-L15")).toEqual([12, 15]);
+    expect(parseLineRange("L7")).toEqual([7, 7]);
+    expect(parseLineRange(" 3 – 5 ")).toEqual([3, 5]);
+  });
+
+  it("orders a reversed range", () => {
+    expect(parseLineRange("L15-L12")).toEqual([12, 15]);
+  });
+
+  it("returns null for anything that isn't a line range", () => {
+    expect(parseLineRange(undefined)).toBeNull();
+    expect(parseLineRange("")).toBeNull();
+    expect(parseLineRange("page 4")).toBeNull();
+    expect(parseLineRange("L12-")).toBeNull();
+    expect(parseLineRange("lines twelve to fifteen")).toBeNull();
+  });
+});
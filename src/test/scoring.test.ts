@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { normalizeAnswer, matchAnswers, allMatch, parseListAnswer, shuffled } from "@/lib/scoring";
+
+describe("normalizeAnswer", () => {
+  it("ignores case and surrounding or repeated spaces", () => {
+    expect(normalizeAnswer("  Krebs   Cycle ")).toBe("krebs cycle");
+  });
+});
+
+describe("matchAnswers", () => {
+  it("marks each answer against the one in the same place", () => {
+    expect(matchAnswers(["Element", "neutrons"], ["element", "protons"])).toEqual([true, false]);
+  });
+
+  it("marks missing answers wrong", () => {
+    expect(matchAnswers(["element"], ["element", "protons"])).toEqual([true, false]);
+  });
+});
+
+describe("allMatch", () => {
+  it("needs every answer and no extras", () => {
+    expect(allMatch(["a", "b"], ["A", "B"])).toBe(true);
+    expect(allMatch(["a", "b", "c"], ["a", "b"])).toBe(false);
+    expect(allMatch(["b", "a"], ["a", "b"])).toBe(false);
+  });
+});
+
+describe("parseListAnswer", () => {
+  it("reads a JSON array and rejects anything else", () => {
+    expect(parseListAnswer('["x", "y"]')).toEqual(["x", "y"]);
+    expect(parseListAnswer("true")).toBeUndefined();
+    expect(parseListAnswer("not json")).toBeUndefined();
+    expect(parseListAnswer(undefined)).toBeUndefined();
+  });
+});
+
+describe("shuffled", () => {
+  it("keeps every item", () => {
+    expect(shuffled([1, 2, 3, 4]).sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  it("never returns the original order", () => {
+    // A random source of 0.999… leaves Fisher–Yates swapping each item with itself
+    expect(shuffled(["a", "b", "c"], () => 0.999)).not.toEqual(["a", "b", "c"]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { schedule, isDue, GRADE_QUALITY, INITIAL_EASE } from "@/lib/sm2";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2026-03-10T09:00:00Z");
+const fresh = { ease: INITIAL_EASE, intervalDays: 0, repetitions: 0 };
+
+describe("schedule", () => {
+  it("waits 1 day, then 6, then grows by the ease", () => {
+    const first = schedule(fresh, GRADE_QUALITY.good, now);
+    expect(first.repetitions).toBe(1);
+    expect(first.intervalDays).toBe(1);
+    expect(first.dueAt.getTime()).toBe(now.getTime() + DAY_MS);
+
+    const second = schedule(first, GRADE_QUALITY.good, now);
+    expect(second.intervalDays).toBe(6);
+
+    const third = schedule(second, GRADE_QUALITY.good, now);
+    expect(third.intervalDays).toBe(Math.round(6 * second.ease));
+  });
+
+  it("starts a forgotten card over without losing all of its ease", () => {
+    const learned = { ease: 2.6, intervalDays: 15, repetitions: 3 };
+    const lapsed = schedule(learned, GRADE_QUALITY.again, now);
+    expect(lapsed.repetitions).toBe(0);
+    expect(lapsed.intervalDays).toBe(1);
+    expect(lapsed.ease).toBeCloseTo(2.6 - 0.54);
+  });
+
+  it("adjusts ease by recall quality", () => {
+    expect(schedule(fresh, GRADE_QUALITY.easy, now).ease).toBeCloseTo(2.6);
+    expect(schedule(fresh, GRADE_QUALITY.good, now).ease).toBeCloseTo(2.5);
+    expect(schedule(fresh, GRADE_QUALITY.hard, now).ease).toBeCloseTo(2.36);
+  });
+
+  it("never lets ease fall below 1.3", () => {
+    let state = { ...fresh };
+    for (let i = 0; i < 10; i++) state = schedule(state, 0, now);
+    expect(state.ease).toBe(1.3);
+  });
+
+  it("clamps quality to 0–5", () => {
+    expect(schedule(fresh, 9, now)).toEqual(schedule(fresh, 5, now));
+    expect(schedule(fresh, -2, now)).toEqual(schedule(fresh, 0, now));
+  });
+});
+
+describe("isDue", () => {
+  it("is due at and after the scheduled time", () => {
+    expect(isDue({ dueAt: now }, now)).toBe(true);
+    expect(isDue({ dueAt: new Date(now.getTime() + 1) }, now)).toBe(false);
+  });
+});
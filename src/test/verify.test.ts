@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import type { ContextSource } from "../../supabase/functions/_shared/context.ts";
+import type { RetrievedChunk } from "../../supabase/functions/_shared/retrieval.ts";
+import {
+  parseLines,
+  verifyCitations,
+  verifyEvidence,
+  verifyQuestion,
+} from "../../supabase/functions/_shared/verify.ts";
+
+/** A chunk as shown to the model, its lines numbered from `firstLine` */
+const source = (id: string, content: string, firstLine: number, page: number | null = 1): ContextSource => ({
+  chunk: {
+    id,
+    document_id: "doc-1",
+    content,
+    page_number: page,
+    chunk_index: 0,
+    heading_path: "Photosynthesis",
+    ocr_confidence: null,
+    line_start: firstLine,
+    line_end: firstLine + content.split("\n").length - 1,
+    similarity: 0.85,
+    keyword_score: null,
+    semantic_rank: 1,
+    keyword_rank: null,
+    score: 1,
+  } as RetrievedChunk,
+  filename: "biology.pdf",
+  firstLine,
+});
+
+const sources = [
+  source(
+    "chunk-1",
+    "Photosynthesis takes place in the chloroplasts.\nLight energy splits water into oxygen and hydrogen ions.",
+    10,
+  ),
+  source("chunk-2", "The Calvin cycle then fixes carbon dioxide into sugars.", 40, 2),
+];
+
+describe("verifyEvidence", () => {
+  it("verifies a quote and corrects its source from the matching chunk", () => {
+    const [e] = verifyEvidence(
+      [{ quote: "Light energy splits water into oxygen", filename: "wrong.pdf", page: "9", lines: "L1" }],
+      sources,
+    );
+    expect(e).toMatchObject({
+      verified: true,
+      chunk_id: "chunk-1",
+      document_id: "doc-1",
+      filename: "biology.pdf",
+      page: "1",
+      section: "Photosynthesis",
+      lines: "L11",
+    });
+  });
+
+  it("gives a quote spanning lines their range", () => {
+    const [e] = verifyEvidence([{ quote: "in the chloroplasts. Light energy splits water" }], sources);
+    expect(e.lines).toBe("L10-L11");
+  });
+
+  it("tolerates light rewording but not a different claim", () => {
+    const [reworded, invented] = verifyEvidence(
+      [
+        { quote: "the Calvin cycle fixes carbon dioxide into glucose" },
+        { quote: "mitochondria produce ATP through respiration" },
+      ],
+      sources,
+    );
+    expect(reworded).toMatchObject({ verified: true, chunk_id: "chunk-2", page: "2", lines: "L40" });
+    expect(invented.verified).toBe(false);
+  });
+
+  it("never verifies a quote shorter than four words", () => {
+    const evidence = verifyEvidence([{ quote: "Calvin cycle" }, { quote: "into oxygen and" }], sources);
+    expect(evidence.map((e) => e.verified)).toEqual([false, false]);
+  });
+
+  it("drops evidence without a quote", () => {
+    expect(verifyEvidence([{ quote: "  " }, { quote: undefined as unknown as string }], sources)).toEqual([]);
+  });
+});
+
+describe("verifyCitations", () => {
+  it("cites verified quotes and pages the model was shown, dropping the rest", () => {
+    const evidence = verifyEvidence([{ quote: "Light energy splits water into oxygen" }], sources);
+    const citations = verifyCitations(
+      [
+        { filename: "Biology.pdf", page: "Page 2" },
+        { filename: "biology.pdf", page: "1" },
+        { filename: "chemistry.pdf", page: "1" },
+      ],
+      evidence,
+      sources,
+    );
+    expect(citations).toEqual([
+      { document_id: "doc-1", filename: "biology.pdf", page: "1", lines: "L11" },
+      { document_id: "doc-1", filename: "biology.pdf", page: "2", lines: "L40" },
+    ]);
+  });
+});
+
+describe("verifyQuestion", () => {
+  it("corrects the citation of a question whose quote is found", () => {
+    const question = verifyQuestion(
+      {
+        quotedText: "The Calvin cycle then fixes carbon dioxide",
+        quotedLines: "L3",
+        citation: { filename: "biology.pdf", page: "1" },
+      },
+      sources,
+    );
+    expect(question.verified).toBe(true);
+    expect(question.quotedLines).toBe("L40");
+    expect(question.citation).toEqual({ document_id: "doc-1", filename: "biology.pdf", page: "2", lines: "L40" });
+  });
+
+  it("leaves a question unverified when its quote is missing or too short", () => {
+    expect(verifyQuestion({}, sources).verified).toBe(false);
+    expect(verifyQuestion({ quotedText: "Calvin cycle" }, sources).verified).toBe(false);
+  });
+});
+
+describe("parseLines", () => {
+  it("reads a range, a single line and a reversed range", () => {
+    expect(parseLines("L12-L15")).toEqual({ start: 12, end: 15 });
+    expect(parseLines("L7")).toEqual({ start: 7, end: 7 });
+    expect(parseLines("L15 – 12")).toEqual({ start: 12, end: 15 });
+  });
+
+  it("returns null for anything else", () => {
+    expect(parseLines(undefined)).toBeNull();
+    expect(parseLines("page 4")).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import type { ContextSource } from "./context.ts";
+import type { Citation, Evidence } from "./verify.ts";
+
+export type ConfidenceLabel = "High" | "Medium" | "Low";
+
+/** Each signal is normalised to 0–1 */
+export interface ConfidenceFactors {
+  /** How closely the supporting chunks matched the question */
+  retrieval: number;
+  /** Share of evidence quotes found in the notes */
+  verification: number;
+  /** Share of the answer's sentences backed by a verified quote */
+  coverage: number;
+  /** Weakest OCR confidence among the supporting chunks, 1 for text layers */
+  ocr: number;
+}
+
+export interface Confidence {
+  label: ConfidenceLabel;
+  score: number;
+  factors: ConfidenceFactors;
+}
+
+const WEIGHTS = { retrieval: 0.3, verification: 0.35, coverage: 0.35 };
+
+// gte-small cosine similarities bunch up: unrelated text still scores ~0.75
+// and a close paraphrase ~0.9, so stretch that band onto 0–1
+const SIMILARITY_FLOOR = 0.75;
+const SIMILARITY_CEILING = 0.9;
+// Chunks found only by keyword search have no similarity to go on
+const KEYWORD_ONLY_STRENGTH = 0.5;
+
+// A sentence counts as covered when this share of its words appear in quotes
+const SENTENCE_COVERAGE = 0.5;
+
+const clamp = (n: number) => Math.min(1, Math.max(0, n));
+
+function words(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter((w) => w.length > 3);
+}
+
+function coverage(answer: string, quotes: string[]): number {
+  const quoted = new Set(quotes.flatMap(words));
+  const sentences = answer
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(words)
+    .filter((w) => w.length >= 3);
+  if (sentences.length === 0) return 0;
+
+  const covered = sentences.filter((w) => w.filter((x) => quoted.has(x)).length / w.length >= SENTENCE_COVERAGE);
+  return covered.length / sentences.length;
+}
+
+function retrievalStrength(source: ContextSource): number {
+  const { similarity, keyword_rank } = source.chunk;
+  const semantic = similarity === null ? 0 : clamp((similarity - SIMILARITY_FLOOR) / (SIMILARITY_CEILING - SIMILARITY_FLOOR));
+  return Math.max(semantic, keyword_rank !== null ? KEYWORD_ONLY_STRENGTH : 0);
+}
+
+function labelFor(score: number, ocr: number): ConfidenceLabel {
+  const label: ConfidenceLabel = score >= 0.7 ? "High" : score >= 0.4 ? "Medium" : "Low";
+  // An answer can't be more reliable than the OCR'd text it rests on
+  if (ocr < 0.6) return "Low";
+  if (ocr < 0.8 && label === "High") return "Medium";
+  return label;
+}
+
+/**
+ * Score an answer from how well it is grounded rather than from what the
+ * model says about itself. Supporting chunks are those a verified quote came
+ * from, else those cited, else everything retrieved.
+ */
+export function scoreConfidence(
+  answer: string,
+  citations: Citation[],
+  evidence: Evidence[],
+  sources: ContextSource[],
+): Confidence {
+  const verified = evidence.filter((e) => e.verified);
+  const quoted = sources.filter((s) => verified.some((e) => e.chunk_id === s.chunk.id));
+  const cited = sources.filter((s) =>
+    citations.some((c) => c.document_id === s.chunk.document_id && c.page === String(s.chunk.page_number ?? ""))
+  );
+  const supporting = quoted.length > 0 ? quoted : cited.length > 0 ? cited : sources;
+
+  const ocrScores = supporting.map((s) => s.chunk.ocr_confidence).filter((v): v is number => v !== null);
+  const factors: ConfidenceFactors = {
+    retrieval: supporting.length > 0 ? Math.max(...supporting.map(retrievalStrength)) : 0,
+    verification: evidence.length > 0 ? verified.length / evidence.length : 0,
+    coverage: coverage(answer, verified.map((e) => e.quote)),
+    ocr: ocrScores.length > 0 ? Math.min(...ocrScores) : 1,
+  };
+
+  const score =
+    WEIGHTS.retrieval * factors.retrieval +
+    WEIGHTS.verification * factors.verification +
+    WEIGHTS.coverage * factors.coverage;
+
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return {
+    label: labelFor(score, factors.ocr),
+    score: round(score),
+    factors: {
+      retrieval: round(factors.retrieval),
+      verification: round(factors.verification),
+      coverage: round(factors.coverage),
+      ocr: round(factors.ocr),
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import type { RetrievedChunk } from "./retrieval.ts";
+
+/** Slide decks are cited by slide, everything else by page */
+export function pageLabel(filename: string, page: number | null): string {
+  const unit = filename.toLowerCase().endsWith(".pptx") ? "Slide" : "Page";
+  return `${unit} ${page ?? "N/A"}`;
+}
+
+/** A retrieved chunk as it was shown to the model */
+export interface ContextSource {
+  chunk: RetrievedChunk;
+  filename: string;
+  /** The L-number of the chunk's first line within its document */
+  firstLine: number;
+}
+
+/**
+ * Render retrieved chunks as the NOTES block of a prompt: a source header per
+ * chunk and L-numbered lines the model quotes back as evidence. Lines carry
+ * their stored number within the document, so the same line is cited the
+ * same way by every feature. The returned sources record that numbering so
+ * answers can be checked against it.
+ */
+export function buildContext(
+  chunks: RetrievedChunk[],
+  docMap: Map<string, string>,
+): { context: string; sources: ContextSource[] } {
+  const sources: ContextSource[] = [];
+  const blocks = chunks.map((chunk) => {
+    const filename = docMap.get(chunk.document_id) || "unknown";
+    const lines = chunk.content.split("\n");
+    const firstLine = chunk.line_start ?? 1;
+    sources.push({ chunk, filename, firstLine });
+
+    const numberedContent = lines.map((line, li) => `L${firstLine + li}: ${line}`).join("\n");
+    const section = chunk.heading_path ? `, Section: ${chunk.heading_path}` : "";
+    return `[Source: ${filename}, ${pageLabel(filename, chunk.page_number)}${section}]\n${numberedContent}`;
+  });
+
+  return { context: blocks.join("\n\n---\n\n"), sources };
+}
@@ -0,0 +1,10 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+
+// gte-small runs inside the edge runtime, so embedding needs no external API.
+// Must match the vector(384) column on public.chunks.
+const session = new Supabase.ai.Session("gte-small");
+
+export async function embed(text: string): Promise<number[]> {
+  const output = await session.run(text, { mean_pool: true, normalize: true });
+  return output as number[];
+}
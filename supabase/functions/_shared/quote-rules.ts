@@ -0,0 +1,8 @@
+// When a quote counts as found in the notes. The app's document viewer imports
+// these too, so what it highlights is what was verified: keep this file free
+// of imports.
+
+/** Share of a quote's words that must occur in one window of a chunk */
+export const MATCH_THRESHOLD = 0.8;
+/** Shorter quotes match almost anywhere at that threshold, so can't be verified */
+export const MIN_QUOTE_WORDS = 4;
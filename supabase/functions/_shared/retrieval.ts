@@ -0,0 +1,120 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { embed } from "./embeddings.ts";
+
+export interface RetrievedChunk {
+  id: string;
+  document_id: string;
+  content: string;
+  page_number: number | null;
+  chunk_index: number;
+  heading_path: string | null;
+  ocr_confidence: number | null;
+  /** 1-based line range within the document, null until it's reprocessed */
+  line_start: number | null;
+  line_end: number | null;
+  /** Cosine similarity, null when only the keyword search found the chunk */
+  similarity: number | null;
+  /** ts_rank_cd score, null when only the vector search found the chunk */
+  keyword_score: number | null;
+  semantic_rank: number | null;
+  keyword_rank: number | null;
+  /** Reciprocal rank fusion score used for ordering */
+  score: number;
+}
+
+type HybridMatch = Pick<
+  RetrievedChunk,
+  "id" | "similarity" | "keyword_score" | "semantic_rank" | "keyword_rank" | "score"
+>;
+
+const CHUNK_COLUMNS =
+  "id, document_id, content, page_number, chunk_index, heading_path, ocr_confidence, line_start, line_end";
+
+// websearch_to_tsquery ANDs bare words, which is too strict for a natural
+// language question — OR the terms and let ts_rank_cd reward multiple hits.
+function keywordQuery(text: string): string {
+  const terms = text.match(/[\p{L}\p{N}][\p{L}\p{N}.\-§]*/gu) || [];
+  return [...new Set(terms.map((t) => t.toLowerCase()))].join(" or ");
+}
+
+/**
+ * Hybrid keyword + semantic search over a subject's chunks, best first.
+ * Searches only the given documents when documentIds is non-empty.
+ */
+export async function retrieveChunks(
+  supabase: SupabaseClient,
+  subjectId: string,
+  queryText: string,
+  matchCount = 8,
+  documentIds?: string[],
+): Promise<RetrievedChunk[]> {
+  const queryEmbedding = await embed(queryText);
+
+  const { data: matches, error } = await supabase.rpc("hybrid_search_chunks", {
+    query_text: keywordQuery(queryText),
+    query_embedding: queryEmbedding,
+    match_subject_id: subjectId,
+    match_count: matchCount,
+    match_document_ids: documentIds && documentIds.length > 0 ? documentIds : null,
+  });
+  if (error) throw new Error(`Retrieval failed: ${error.message}`);
+  if (!matches || matches.length === 0) return [];
+
+  const { data: rows, error: rowsError } = await supabase
+    .from("chunks")
+    .select(CHUNK_COLUMNS)
+    .in("id", (matches as HybridMatch[]).map((m) => m.id));
+  if (rowsError) throw new Error(`Retrieval failed: ${rowsError.message}`);
+
+  const rowMap = new Map((rows || []).map((r) => [r.id, r]));
+  return (matches as HybridMatch[])
+    .filter((m) => rowMap.has(m.id))
+    .map((m) => ({ ...rowMap.get(m.id), ...m }) as RetrievedChunk);
+}
+
+/** Most chunks a citation can pull in, so a loose one can't load a whole document */
+const MAX_CITED_CHUNKS = 8;
+
+/**
+ * The chunks a citation points at in reading order, for grounding on it
+ * rather than a search: those on its page (or with no page, for documents
+ * without pages) overlapping its line range when it has one. They carry no
+ * search scores.
+ */
+export async function citedChunks(
+  supabase: SupabaseClient,
+  documentId: string,
+  page: number | null,
+  lines: { start: number; end: number } | null,
+): Promise<RetrievedChunk[]> {
+  let query = supabase.from("chunks").select(CHUNK_COLUMNS).eq("document_id", documentId);
+  query = page === null ? query.is("page_number", null) : query.eq("page_number", page);
+  if (lines) query = query.lte("line_start", lines.end).gte("line_end", lines.start);
+  const { data, error } = await query.order("chunk_index").limit(MAX_CITED_CHUNKS);
+  if (error) throw new Error(`Retrieval failed: ${error.message}`);
+
+  return (data || []).map((row) => ({
+    ...row,
+    similarity: null,
+    keyword_score: null,
+    semantic_rank: null,
+    keyword_rank: null,
+    score: 0,
+  }) as RetrievedChunk);
+}
+
+/** Per-chunk scores returned to the client so it can see why a chunk was picked */
+export function retrievalScores(chunks: RetrievedChunk[], docMap: Map<string, string>) {
+  return chunks.map((c) => ({
+    chunk_id: c.id,
+    document_id: c.document_id,
+    filename: docMap.get(c.document_id) || "unknown",
+    page: c.page_number,
+    section: c.heading_path,
+    similarity: c.similarity,
+    keyword_score: c.keyword_score,
+    semantic_rank: c.semantic_rank,
+    keyword_rank: c.keyword_rank,
+    score: c.score,
+  }));
+}
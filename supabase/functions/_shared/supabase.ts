@@ -0,0 +1,17 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * A client that acts as the caller: it carries their JWT, so every query and
+ * storage call goes through the same row-level security as the app itself.
+ * A subject, document or file the caller doesn't own simply isn't found.
+ */
+export function createUserClient(req: Request) {
+  return createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    }
+  );
+}
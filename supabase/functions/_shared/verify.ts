@@ -0,0 +1,205 @@
+import type { ContextSource } from "./context.ts";
+import { MATCH_THRESHOLD, MIN_QUOTE_WORDS } from "./quote-rules.ts";
+
+export interface Citation {
+  document_id?: string;
+  filename?: string;
+  page?: string;
+  /** Line range within the document, like L12-L15 */
+  lines?: string;
+}
+
+export interface Evidence {
+  quote: string;
+  document_id?: string;
+  filename?: string;
+  page?: string;
+  section?: string;
+  lines?: string;
+  /** True when the quote was found in the notes the answer was given */
+  verified?: boolean;
+  /** The chunk a verified quote was found in */
+  chunk_id?: string;
+}
+
+interface Token {
+  word: string;
+  /** Line index within the chunk */
+  line: number;
+}
+
+interface QuoteMatch {
+  source: ContextSource;
+  score: number;
+  startLine: number;
+  endLine: number;
+}
+
+function tokenize(text: string): Token[] {
+  return text.split("\n").flatMap((line, i) =>
+    (line.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).map((word) => ({ word, line: i }))
+  );
+}
+
+/**
+ * Find where a quote came from. Models trim, re-punctuate and lightly reword
+ * what they quote, so rather than substring search this slides a window the
+ * quote's length over each chunk and scores the share of the quote's words it
+ * contains. Sources are in retrieval order, so ties go to the better match.
+ */
+function matchQuote(quote: string, sources: ContextSource[]): QuoteMatch | null {
+  const words = tokenize(quote).map((t) => t.word);
+  if (words.length < MIN_QUOTE_WORDS) return null;
+
+  const needed = new Map<string, number>();
+  for (const w of words) needed.set(w, (needed.get(w) || 0) + 1);
+
+  let best: QuoteMatch | null = null;
+  for (const source of sources) {
+    const tokens = tokenize(source.chunk.content);
+    const width = Math.min(words.length, tokens.length);
+    const seen = new Map<string, number>();
+    let hits = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const added = tokens[i].word;
+      const count = (seen.get(added) || 0) + 1;
+      seen.set(added, count);
+      if (count <= (needed.get(added) || 0)) hits++;
+
+      if (i >= width) {
+        const dropped = tokens[i - width].word;
+        const left = seen.get(dropped)!;
+        seen.set(dropped, left - 1);
+        if (left <= (needed.get(dropped) || 0)) hits--;
+      }
+
+      if (i >= width - 1) {
+        const score = hits / words.length;
+        if (!best || score > best.score) {
+          best = { source, score, startLine: tokens[i - width + 1].line, endLine: tokens[i].line };
+        }
+      }
+    }
+  }
+
+  return best && best.score >= MATCH_THRESHOLD ? best : null;
+}
+
+function formatLines(start: number, end: number): string {
+  return start === end ? `L${start}` : `L${start}-L${end}`;
+}
+
+/** The inverse of formatLines: "L12-L15" or "L12" as an inclusive range, null if unreadable */
+export function parseLines(lines: string | undefined): { start: number; end: number } | null {
+  const match = lines?.trim().match(/^L(\d+)(?:\s*[-–]\s*L?(\d+))?$/i);
+  if (!match) return null;
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : start;
+  return start <= end ? { start, end } : { start: end, end: start };
+}
+
+function lineRange(match: QuoteMatch): string {
+  return formatLines(match.source.firstLine + match.startLine, match.source.firstLine + match.endLine);
+}
+
+/** Lines spanned by the chunks shown from one page of a document */
+function pageLines(sources: ContextSource[]): string {
+  const starts = sources.map((s) => s.firstLine);
+  const ends = sources.map((s) => s.firstLine + s.chunk.content.split("\n").length - 1);
+  return formatLines(Math.min(...starts), Math.max(...ends));
+}
+
+function pageOf(source: ContextSource): string {
+  return String(source.chunk.page_number ?? "");
+}
+
+/**
+ * Check each evidence quote against the chunks the model was shown. Found
+ * quotes get their filename, page, section and lines corrected from the
+ * matching chunk; the rest are kept but marked unverified.
+ */
+export function verifyEvidence(evidence: Evidence[], sources: ContextSource[]): Evidence[] {
+  return (evidence || [])
+    .filter((e) => typeof e?.quote === "string" && e.quote.trim())
+    .map((e) => {
+      const match = matchQuote(e.quote, sources);
+      if (!match) return { ...e, verified: false };
+      return {
+        ...e,
+        document_id: match.source.chunk.document_id,
+        filename: match.source.filename,
+        page: pageOf(match.source),
+        section: match.source.chunk.heading_path ?? "",
+        lines: lineRange(match),
+        verified: true,
+        chunk_id: match.source.chunk.id,
+      };
+    });
+}
+
+/**
+ * Cite each verified quote by document, page and line range, then add any
+ * other citation that names a file and page the model was actually shown,
+ * spanning the lines shown from that page. Citations naming anything else
+ * are dropped.
+ */
+export function verifyCitations(
+  citations: Citation[],
+  evidence: Evidence[],
+  sources: ContextSource[],
+): Citation[] {
+  const verified = new Map<string, Citation>();
+
+  for (const e of evidence) {
+    if (!e.verified || !e.document_id) continue;
+    verified.set(`${e.document_id}:${e.page}:${e.lines}`, {
+      document_id: e.document_id,
+      filename: e.filename,
+      page: e.page ?? "",
+      lines: e.lines,
+    });
+  }
+
+  const citedPages = new Set([...verified.values()].map((c) => `${c.document_id}:${c.page}`));
+  for (const c of citations || []) {
+    const filename = String(c?.filename ?? "").trim().toLowerCase();
+    const page = String(c?.page ?? "").match(/\d+/)?.[0] ?? "";
+    const shown = sources.filter((s) => s.filename.toLowerCase() === filename && pageOf(s) === page);
+    if (shown.length === 0) continue;
+
+    const documentId = shown[0].chunk.document_id;
+    if (citedPages.has(`${documentId}:${page}`)) continue;
+    citedPages.add(`${documentId}:${page}`);
+    verified.set(`${documentId}:${page}`, {
+      document_id: documentId,
+      filename: shown[0].filename,
+      page,
+      lines: pageLines(shown),
+    });
+  }
+
+  return [...verified.values()];
+}
+
+/**
+ * Verify a generated study question's supporting quote, correcting its
+ * citation and line range from the matching chunk when found.
+ */
+export function verifyQuestion<
+  T extends { quotedText?: string; quotedLines?: string; citation?: Citation },
+>(question: T, sources: ContextSource[]): T & { verified: boolean } {
+  const match = question.quotedText ? matchQuote(question.quotedText, sources) : null;
+  if (!match) return { ...question, verified: false };
+  return {
+    ...question,
+    quotedLines: lineRange(match),
+    citation: {
+      document_id: match.source.chunk.document_id,
+      filename: match.source.filename,
+      page: pageOf(match.source),
+      lines: lineRange(match),
+    },
+    verified: true,
+  };
+}
@@ -1,22 +1,183 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createUserClient } from "../_shared/supabase.ts";
+import { retrieveChunks, retrievalScores } from "../_shared/retrieval.ts";
+import { buildContext, type ContextSource } from "../_shared/context.ts";
+import { verifyCitations, verifyEvidence, type Citation, type Evidence } from "../_shared/verify.ts";
+import { scoreConfidence, type Confidence } from "../_shared/confidence.ts";
+import { contentDeltas, sseEvent } from "./stream.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
+const AI_GATEWAY_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+
+// Citations and evidence — shared by the `respond` tool (JSON replies) and
+// the `cite` tool (follow-up call after a streamed answer). Confidence is
+// scored from these server-side, never taken from the model.
+const METADATA_PROPERTIES = {
+  citations: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        filename: { type: "string" },
+        page: { type: "string", description: "Page or slide number from the source header, digits only" },
+      },
+      required: ["filename", "page"],
+    },
+  },
+  evidence: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        quote: { type: "string" },
+        filename: { type: "string" },
+        page: { type: "string", description: "Page or slide number from the source header, digits only" },
+        section: { type: "string", description: "The Section heading from the source header, if any" },
+        lines: { type: "string", description: "Line range like L12-L15" },
+      },
+      required: ["quote", "lines"],
+    },
+  },
+};
+
+interface AnswerMetadata {
+  citations: Citation[];
+  evidence: Evidence[];
+}
+
+interface CheckedAnswer extends AnswerMetadata {
+  content: string;
+  confidence: Confidence["label"];
+  confidence_score: number;
+  confidence_factors: Confidence["factors"];
+}
+
+function callGateway(body: Record<string, unknown>): Promise<Response> {
+  return fetch(AI_GATEWAY_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${Deno.env.get("LOVABLE_API_KEY")}`,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+/** Map rate/usage limits to client-facing responses; anything else is thrown. */
+async function gatewayError(response: Response): Promise<Response> {
+  if (response.status === 429) {
+    return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again shortly." }), {
+      status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+  if (response.status === 402) {
+    return new Response(JSON.stringify({ error: "Usage limit reached. Please add credits." }), {
+      status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+  const t = await response.text();
+  console.error("AI error:", response.status, t);
+  throw new Error(`AI request failed: ${response.status}`);
+}
+
+/**
+ * A streamed answer is plain text, so its citations come from a second,
+ * non-streamed call that reads the finished answer against the same notes.
+ * Falls back to no citations rather than failing an answer already shown.
+ */
+async function extractMetadata(context: string, question: string, answer: string): Promise<AnswerMetadata> {
+  const fallback: AnswerMetadata = { citations: [], evidence: [] };
+  const response = await callGateway({
+    model: "google/gemini-2.5-flash",
+    messages: [
+      {
+        role: "system",
+        content: `You cite sources for an answer that was written from the notes below. Call the cite tool with the files and pages the answer draws on and verbatim evidence quotes with their line ranges.
+
+NOTES:
+${context}`,
+      },
+      { role: "user", content: `Question: ${question}\n\nAnswer:\n${answer}` },
+    ],
+    temperature: 0,
+    tools: [
+      {
+        type: "function",
+        function: {
+          name: "cite",
+          description: "Return the citations and evidence supporting the answer.",
+          parameters: {
+            type: "object",
+            properties: METADATA_PROPERTIES,
+            required: ["citations", "evidence"],
+            additionalProperties: false,
+          },
+        },
+      },
+    ],
+    tool_choice: { type: "function", function: { name: "cite" } },
+  });
+
+  if (!response.ok) {
+    console.error("Citation extraction failed:", response.status, await response.text());
+    return fallback;
+  }
+  const data = await response.json();
+  try {
+    const parsed = JSON.parse(data.choices?.[0]?.message?.tool_calls?.[0]?.function?.arguments ?? "");
+    return { citations: parsed.citations || [], evidence: parsed.evidence || [] };
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Replace the model's citations and evidence with what checks out against the
+ * notes it was shown, and score confidence from how well grounded that leaves
+ * the answer.
+ */
+function checkAgainstNotes(content: string, metadata: AnswerMetadata, sources: ContextSource[]): CheckedAnswer {
+  const evidence = verifyEvidence(metadata.evidence, sources);
+  const citations = verifyCitations(metadata.citations, evidence, sources);
+  const confidence = scoreConfidence(content, citations, evidence, sources);
+  return {
+    content,
+    citations,
+    evidence,
+    confidence: confidence.label,
+    confidence_score: confidence.score,
+    confidence_factors: confidence.factors,
+  };
+}
+
+/** Save the question and answer to chat history (fire and forget). */
+function saveExchange(
+  supabase: SupabaseClient,
+  subjectId: string,
+  question: string,
+  answer: CheckedAnswer,
+) {
+  supabase.from("chat_messages").insert({ subject_id: subjectId, role: "user", content: question }).then(() => {});
+  supabase.from("chat_messages").insert({
+    subject_id: subjectId, role: "assistant", content: answer.content,
+    citations: answer.citations, evidence: answer.evidence, confidence: answer.confidence,
+    confidence_score: answer.confidence_score, confidence_factors: answer.confidence_factors,
+  }).then(() => {});
+}
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { subject_id, question, conversation_history, mode } = await req.json();
+    const { subject_id, question, conversation_history, mode, stream } = await req.json();
 
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-    );
+    const supabase = createUserClient(req);
 
     const { data: subject } = await supabase
       .from("subjects")
@@ -31,11 +192,12 @@ Deno.serve(async (req) => {
       });
     }
 
-    const { data: chunks } = await supabase
-      .from("chunks")
-      .select("content, page_number, document_id, chunk_index")
-      .eq("subject_id", subject_id)
-      .order("chunk_index");
+    // Retrieve only the chunks closest to the question, folding in the last
+    // few user turns so follow-ups like "what about the second one?" still match
+    const recentTurns = Array.isArray(conversation_history)
+      ? conversation_history.filter((m: { role: string }) => m.role === "user").slice(-2).map((m: { content: string }) => m.content)
+      : [];
+    const chunks = await retrieveChunks(supabase, subject_id, [...recentTurns, question].join("\n"));
 
     if (!chunks || chunks.length === 0) {
       const result = {
@@ -43,6 +205,8 @@ Deno.serve(async (req) => {
         citations: [],
         evidence: [],
         confidence: "Low",
+        confidence_score: 0,
+        retrieval: [],
       };
       return new Response(JSON.stringify(result), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -57,17 +221,7 @@ Deno.serve(async (req) => {
 
     const docMap = new Map(docs?.map((d) => [d.id, d.filename]) || []);
 
-    let cumulativeLine = 1;
-    const context = chunks
-      .map((c, idx) => {
-        const filename = docMap.get(c.document_id) || "unknown";
-        const lines = c.content.split("\n");
-        const startLine = cumulativeLine;
-        const numberedContent = lines.map((line, li) => `L${startLine + li}: ${line}`).join("\n");
-        cumulativeLine += lines.length;
-        return `[Source: ${filename}, Page ${c.page_number || "N/A"}, Section ${idx + 1}]\n${numberedContent}`;
-      })
-      .join("\n\n---\n\n");
+    const { context, sources } = buildContext(chunks, docMap);
 
     // Build request body — voice_call mode skips tool calling for plain text
     const isVoiceCall = mode === "voice_call";
@@ -86,11 +240,11 @@ CRITICAL RULES:
 - Reference previous conversation naturally: "Like we discussed earlier...", "Building on what you asked before..."
 - Be encouraging and teacher-like: "Great question!", "That's an important concept."
 
-After answering, call the respond tool with your answer, citations, evidence quotes, and confidence level — same as chat mode.
+After answering, call the respond tool with your answer, citations and evidence quotes — same as chat mode.
 
 NOTES:
 ${context}`
-            : `You are a study assistant for "${subject.name}". Answer ONLY from the notes below. Use markdown. If the information is not in the notes, respond exactly: "Not found in your notes for ${subject.name}". After answering, call the respond tool with your answer and extracted citations.
+            : `You are a study assistant for "${subject.name}". Answer ONLY from the notes below. Use markdown. If the information is not in the notes, respond exactly: "Not found in your notes for ${subject.name}".${stream ? "" : " After answering, call the respond tool with your answer and extracted citations."}
 
 NOTES:
 ${context}`,
@@ -104,101 +258,87 @@ ${context}`,
       temperature: isVoiceCall ? 0.5 : 0.3,
     };
 
-    // Both modes use tool calling for structured citations/evidence
-    {
-      requestBody.tools = [
-        {
-          type: "function",
-          function: {
-            name: "respond",
-            description: "Return the answer with citations and evidence extracted from the notes.",
-            parameters: {
-              type: "object",
-              properties: {
-                content: { type: "string", description: "The full markdown answer" },
-                citations: {
-                  type: "array",
-                  items: {
-                    type: "object",
-                    properties: {
-                      filename: { type: "string" },
-                      page: { type: "string" },
-                    },
-                    required: ["filename", "page"],
-                  },
-                },
-                evidence: {
-                  type: "array",
-                  items: {
-                    type: "object",
-                    properties: {
-                      quote: { type: "string" },
-                      page: { type: "string" },
-                      section: { type: "string" },
-                      lines: { type: "string", description: "Line range like L12-L15" },
-                    },
-                    required: ["quote", "lines"],
-                  },
-                },
-                confidence: { type: "string", enum: ["High", "Medium", "Low"] },
-              },
-              required: ["content", "citations", "evidence", "confidence"],
-              additionalProperties: false,
-            },
-          },
+    // Streamed chat sends the answer as plain text deltas, then the
+    // citations, evidence and confidence as one final `metadata` event
+    if (stream && !isVoiceCall) {
+      const response = await callGateway({ ...requestBody, stream: true });
+      if (!response.ok) return await gatewayError(response);
+
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          let content = "";
+          try {
+            for await (const delta of contentDeltas(response.body!)) {
+              content += delta;
+              controller.enqueue(sseEvent("delta", { content: delta }));
+            }
+            if (!content) {
+              content = "Sorry, I couldn't generate a response.";
+              controller.enqueue(sseEvent("delta", { content }));
+            }
+
+            const answer = checkAgainstNotes(content, await extractMetadata(context, question, content), sources);
+            saveExchange(supabase, subject_id, question, answer);
+            const { content: _content, ...metadata } = answer;
+            controller.enqueue(sseEvent("metadata", { ...metadata, retrieval: retrievalScores(chunks, docMap) }));
+          } catch (error) {
+            console.error("Chat stream error:", error);
+            controller.enqueue(sseEvent("error", { error: error.message }));
+          } finally {
+            controller.close();
+          }
         },
-      ];
-      requestBody.tool_choice = { type: "function", function: { name: "respond" } };
+      });
+
+      return new Response(body, {
+        headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+      });
     }
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${Deno.env.get("LOVABLE_API_KEY")}`,
+    // JSON replies (including voice calls) use tool calling for structured citations/evidence
+    requestBody.tools = [
+      {
+        type: "function",
+        function: {
+          name: "respond",
+          description: "Return the answer with citations and evidence extracted from the notes.",
+          parameters: {
+            type: "object",
+            properties: {
+              content: { type: "string", description: "The full markdown answer" },
+              ...METADATA_PROPERTIES,
+            },
+            required: ["content", "citations", "evidence"],
+            additionalProperties: false,
+          },
+        },
       },
-      body: JSON.stringify(requestBody),
-    });
+    ];
+    requestBody.tool_choice = { type: "function", function: { name: "respond" } };
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again shortly." }), {
-          status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: "Usage limit reached. Please add credits." }), {
-          status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      const t = await response.text();
-      console.error("AI error:", response.status, t);
-      throw new Error(`AI request failed: ${response.status}`);
-    }
+    const response = await callGateway(requestBody);
+    if (!response.ok) return await gatewayError(response);
 
     const data = await response.json();
 
-    let result = { content: "", citations: [] as any[], evidence: [] as any[], confidence: "Medium" };
+    let content = "";
+    let metadata: AnswerMetadata = { citations: [], evidence: [] };
 
     const toolCall = data.choices?.[0]?.message?.tool_calls?.[0];
-    if (toolCall?.function?.arguments) {
-      try {
-        result = JSON.parse(toolCall.function.arguments);
-      } catch {
-        result.content = data.choices?.[0]?.message?.content || "Sorry, I couldn't generate a response.";
-      }
-    } else {
-      result.content = data.choices?.[0]?.message?.content || "Sorry, I couldn't generate a response.";
+    try {
+      const parsed = JSON.parse(toolCall?.function?.arguments ?? "");
+      content = parsed.content || "";
+      metadata = { citations: parsed.citations || [], evidence: parsed.evidence || [] };
+    } catch {
+      // No usable tool call — fall back to any plain text reply
     }
+    if (!content) content = data.choices?.[0]?.message?.content || "Sorry, I couldn't generate a response.";
+
+    const result = checkAgainstNotes(content, metadata, sources);
 
-    // Save to DB (fire and forget)
-    supabase.from("chat_messages").insert({ subject_id, role: "user", content: question }).then(() => {});
-    supabase.from("chat_messages").insert({
-      subject_id, role: "assistant", content: result.content,
-      citations: result.citations, evidence: result.evidence, confidence: result.confidence,
-    }).then(() => {});
+    saveExchange(supabase, subject_id, question, result);
 
-    return new Response(JSON.stringify(result), {
+    return new Response(JSON.stringify({ ...result, retrieval: retrievalScores(chunks, docMap) }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error) {
@@ -0,0 +1,37 @@
+const encoder = new TextEncoder();
+
+/** Encode one server-sent event with a JSON payload. */
+export function sseEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Yield the text deltas of a streamed (OpenAI-compatible) chat completion.
+ * Each `data:` line carries one JSON chunk; the stream ends with `[DONE]`.
+ */
+export async function* contentDeltas(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value;
+
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line.startsWith("data:")) continue;
+
+      const payload = line.slice(5).trim();
+      if (payload === "[DONE]") return;
+      try {
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      } catch {
+        // Keep-alive comments and malformed chunks carry no text
+      }
+    }
+  }
+}
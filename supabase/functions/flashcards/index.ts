@@ -0,0 +1,182 @@
+import { createUserClient } from "../_shared/supabase.ts";
+import { retrieveChunks } from "../_shared/retrieval.ts";
+import { buildContext } from "../_shared/context.ts";
+import { verifyQuestion, type Citation } from "../_shared/verify.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const DEFAULT_CARD_COUNT = 10;
+const MAX_CARD_COUNT = 30;
+
+interface GeneratedCard {
+  front: string;
+  back: string;
+  quotedText?: string;
+  quotedLines?: string;
+  citation?: Citation;
+}
+
+const CARD_TOOL = {
+  type: "function",
+  function: {
+    name: "make_cards",
+    description: "Return flashcards written from the notes.",
+    parameters: {
+      type: "object",
+      properties: {
+        cards: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              front: { type: "string", description: "A question or term to recall" },
+              back: { type: "string", description: "The answer, in one or two sentences" },
+              quotedText: { type: "string", description: "Exact short quote from the notes the answer rests on" },
+              quotedLines: { type: "string", description: "Line range of the quote, like L12-L15" },
+              citation: {
+                type: "object",
+                properties: {
+                  filename: { type: "string" },
+                  page: { type: "string", description: "Page or slide number from the source header, digits only" },
+                },
+                required: ["filename", "page"],
+              },
+            },
+            required: ["front", "back", "quotedText", "citation"],
+          },
+        },
+      },
+      required: ["cards"],
+      additionalProperties: false,
+    },
+  },
+};
+
+// Generates flashcards for a subject from its notes, checks each card's quote
+// against them and adds the cards to the subject's deck, due for review now.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { subject_id, topic, count } = await req.json();
+    const cardCount = Math.min(MAX_CARD_COUNT, Math.max(1, Number(count) || DEFAULT_CARD_COUNT));
+
+    const supabase = createUserClient(req);
+
+    const { data: subject } = await supabase
+      .from("subjects")
+      .select("name")
+      .eq("id", subject_id)
+      .single();
+
+    if (!subject) {
+      return new Response(JSON.stringify({ error: "Subject not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const chunks = await retrieveChunks(supabase, subject_id, topic || subject.name, 24);
+    if (chunks.length === 0) {
+      return new Response(JSON.stringify({ flashcards: [] }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const docIds = [...new Set(chunks.map((c) => c.document_id))];
+    const { data: docs } = await supabase
+      .from("documents")
+      .select("id, filename")
+      .in("id", docIds);
+    const docMap = new Map(docs?.map((d) => [d.id, d.filename]) || []);
+    const { context, sources } = buildContext(chunks, docMap);
+
+    // Steer away from cards the deck already has
+    const { data: existing } = await supabase
+      .from("flashcards")
+      .select("front")
+      .eq("subject_id", subject_id)
+      .order("created_at", { ascending: false })
+      .limit(50);
+    const avoid = existing && existing.length > 0
+      ? `\n\nThe deck already has these cards; don't repeat them:\n${existing.map((c) => `- ${c.front}`).join("\n")}`
+      : "";
+
+    const aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${Deno.env.get("LOVABLE_API_KEY")}`,
+      },
+      body: JSON.stringify({
+        model: "google/gemini-3-flash-preview",
+        messages: [
+          {
+            role: "system",
+            content: `You write flashcards for "${subject.name}" using ONLY the notes below${topic ? `, focusing on "${topic}"` : ""}.
+
+Write ${cardCount} cards. Each card tests one fact, definition or idea from the notes: a short question or term on the front and a concise answer on the back. Quote the exact words of the notes the answer rests on, with their line range, and cite the file and page from the source header. Don't write cards about file names, dates or document properties.${avoid}
+
+NOTES:
+${context}`,
+          },
+          { role: "user", content: "Write the flashcards." },
+        ],
+        temperature: 0.4,
+        tools: [CARD_TOOL],
+        tool_choice: { type: "function", function: { name: "make_cards" } },
+      }),
+    });
+
+    if (!aiResponse.ok) {
+      console.error("AI error:", aiResponse.status, await aiResponse.text());
+      throw new Error(`AI request failed: ${aiResponse.status}`);
+    }
+
+    const aiData = await aiResponse.json();
+    let generated: GeneratedCard[];
+    try {
+      const args = JSON.parse(aiData.choices?.[0]?.message?.tool_calls?.[0]?.function?.arguments ?? "");
+      generated = Array.isArray(args.cards) ? args.cards : [];
+    } catch {
+      throw new Error("The model returned flashcards in an unexpected format");
+    }
+
+    const rows = generated
+      .filter((c) => c?.front?.trim() && c?.back?.trim())
+      .slice(0, cardCount)
+      .map((c) => verifyQuestion(c, sources))
+      .map((c) => ({
+        subject_id,
+        front: c.front.trim(),
+        back: c.back.trim(),
+        citation: c.citation ?? null,
+        quoted_text: c.quotedText ?? null,
+        quoted_lines: c.quotedLines ?? null,
+        verified: c.verified,
+        source: "generated",
+      }));
+
+    if (rows.length === 0) {
+      throw new Error("No flashcards could be written from these notes");
+    }
+
+    const { data: flashcards, error } = await supabase.from("flashcards").insert(rows).select();
+    if (error) throw new Error(`Failed to save flashcards: ${error.message}`);
+
+    return new Response(JSON.stringify({ flashcards }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Flashcards error:", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,221 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createUserClient } from "../_shared/supabase.ts";
+import { retrieveChunks, citedChunks } from "../_shared/retrieval.ts";
+import { buildContext } from "../_shared/context.ts";
+import { verifyEvidence, parseLines, type Citation, type Evidence } from "../_shared/verify.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const MAX_ANSWER_LENGTH = 4000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface Grade {
+  /** 0–100 */
+  score: number;
+  feedback: string;
+  missedPoints: string[];
+  evidence: Evidence[];
+}
+
+const GRADE_TOOL = {
+  type: "function",
+  function: {
+    name: "grade",
+    description: "Return the grade for the student's answer.",
+    parameters: {
+      type: "object",
+      properties: {
+        score: { type: "integer", description: "0–100: how much of the model answer's substance the student's answer gets right" },
+        feedback: { type: "string", description: "One or two sentences to the student on what they got right and wrong" },
+        missedPoints: {
+          type: "array",
+          items: { type: "string" },
+          description: "Key points of the model answer the student left out or got wrong; empty if none",
+        },
+        evidence: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              quote: { type: "string", description: "Exact words from the notes" },
+              lines: { type: "string", description: "Line range like L12-L15" },
+            },
+            required: ["quote", "lines"],
+          },
+          description: "Quotes from the notes that support the missed points, or the answer if nothing was missed",
+        },
+      },
+      required: ["score", "feedback", "missedPoints", "evidence"],
+      additionalProperties: false,
+    },
+  },
+};
+
+async function savedGrade(
+  supabase: SupabaseClient,
+  runId: string,
+  questionId: string,
+): Promise<Grade | null> {
+  const { data } = await supabase
+    .from("quiz_attempts")
+    .select("grade")
+    .eq("run_id", runId)
+    .eq("question_id", questionId)
+    .maybeSingle();
+  return (data?.grade as Grade | null) ?? null;
+}
+
+// Grades a short-answer response against the question's model answer and the
+// notes it cites, and saves the grade with the quiz attempt.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { question_id, answer, run_id, time_taken_ms } = await req.json();
+    if (!UUID_PATTERN.test(String(question_id)) || !UUID_PATTERN.test(String(run_id))) {
+      return new Response(JSON.stringify({ error: "question_id and run_id must be UUIDs" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    const studentAnswer = String(answer ?? "").trim();
+    if (!studentAnswer || studentAnswer.length > MAX_ANSWER_LENGTH) {
+      return new Response(JSON.stringify({ error: `Answers must be 1–${MAX_ANSWER_LENGTH} characters` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createUserClient(req);
+
+    const { data: question } = await supabase
+      .from("study_questions")
+      .select("id, study_set_id, subject_id, type, question, payload, citation")
+      .eq("id", question_id)
+      .single();
+
+    if (!question || question.type !== "short_answer") {
+      return new Response(JSON.stringify({ error: "Question not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // A retry of an answer already graded in this run gets the saved grade
+    // back rather than paying for another one the insert would then reject
+    const existing = await savedGrade(supabase, run_id, question.id);
+    if (existing) {
+      return new Response(JSON.stringify({ grade: existing }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // The cited lines first, then whatever else the notes say on the question,
+    // so an answer drawing on another part of the notes isn't marked down
+    const citation = (question.citation ?? {}) as Citation;
+    const citedPage = Number(citation.page?.match(/\d+/)?.[0]);
+    const cited = citation.document_id
+      ? await citedChunks(
+          supabase,
+          citation.document_id,
+          Number.isFinite(citedPage) ? citedPage : null,
+          parseLines(citation.lines),
+        )
+      : [];
+    const related = await retrieveChunks(supabase, question.subject_id, question.question, 4);
+    const citedIds = new Set(cited.map((c) => c.id));
+    const chunks = [...cited, ...related.filter((c) => !citedIds.has(c.id))];
+
+    const docIds = [...new Set(chunks.map((c) => c.document_id))];
+    const { data: docs } = await supabase
+      .from("documents")
+      .select("id, filename")
+      .in("id", docIds);
+    const docMap = new Map(docs?.map((d) => [d.id, d.filename]) || []);
+    const { context, sources } = buildContext(chunks, docMap);
+
+    const aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${Deno.env.get("LOVABLE_API_KEY")}`,
+      },
+      body: JSON.stringify({
+        model: "google/gemini-3-flash-preview",
+        messages: [
+          {
+            role: "system",
+            content: `You grade a student's short answer using ONLY the model answer and the notes below.
+
+Score how much of the model answer's substance the student's answer gets right, from 0 to 100. Judge meaning, not wording: a correct answer in the student's own words earns full marks, and extra correct detail from the notes is never penalised. List the key points the student missed or got wrong, and quote the exact words of the notes that support them, with their line ranges. Speak to the student directly in the feedback.
+
+QUESTION:
+${question.question}
+
+MODEL ANSWER:
+${question.payload?.modelAnswer ?? ""}
+
+NOTES:
+${context || "(no notes found)"}`,
+          },
+          { role: "user", content: `Student's answer:\n${studentAnswer}` },
+        ],
+        temperature: 0,
+        tools: [GRADE_TOOL],
+        tool_choice: { type: "function", function: { name: "grade" } },
+      }),
+    });
+
+    if (!aiResponse.ok) {
+      console.error("AI error:", aiResponse.status, await aiResponse.text());
+      throw new Error(`AI request failed: ${aiResponse.status}`);
+    }
+
+    const aiData = await aiResponse.json();
+    let grade: Grade;
+    try {
+      const args = JSON.parse(aiData.choices?.[0]?.message?.tool_calls?.[0]?.function?.arguments ?? "");
+      grade = {
+        score: Math.min(100, Math.max(0, Math.round(Number(args.score) || 0))),
+        feedback: String(args.feedback ?? "").trim(),
+        missedPoints: Array.isArray(args.missedPoints)
+          ? args.missedPoints.map((p: unknown) => String(p).trim()).filter(Boolean)
+          : [],
+        evidence: verifyEvidence(args.evidence || [], sources),
+      };
+    } catch {
+      throw new Error("The model returned a grade in an unexpected format");
+    }
+
+    const { error } = await supabase.from("quiz_attempts").insert({
+      run_id,
+      study_set_id: question.study_set_id,
+      subject_id: question.subject_id,
+      question_id: question.id,
+      answer: studentAnswer,
+      time_taken_ms: Math.max(0, Math.round(Number(time_taken_ms) || 0)),
+      grade,
+    });
+    if (error) {
+      // A concurrent request graded it first: return the grade that was kept
+      const kept = error.code === "23505" ? await savedGrade(supabase, run_id, question.id) : null;
+      if (!kept) throw new Error(`Failed to save grade: ${error.message}`);
+      grade = kept;
+    }
+
+    return new Response(JSON.stringify({ grade }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Grade error:", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,178 @@
+// Soft cap on chunk size; chunks close early at headings and page ends
+const MAX_CHUNK_CHARS = 1200;
+// Pages with less text than this (blank slides, stray page numbers) aren't indexed
+const MIN_PAGE_CHARS = 10;
+
+export interface PageText {
+  /** 1-based page number, or null for formats without pages */
+  page_number: number | null;
+  text: string;
+  /** OCR confidence in [0, 1] when the text was recognised from an image */
+  ocr_confidence?: number | null;
+}
+
+export interface TextChunk {
+  content: string;
+  page_number: number | null;
+  /** Headings enclosing the chunk, e.g. "Chapter 3 > Enzymes > Kinetics" */
+  heading_path: string | null;
+  ocr_confidence: number | null;
+  /** 1-based line range within the document's extracted text, pages in order */
+  line_start: number;
+  line_end: number;
+}
+
+interface Piece {
+  text: string;
+  /** Line index within the page, used to rebuild the original layout */
+  line: number;
+  headingPath: string | null;
+  isHeading: boolean;
+  /** A sentence or paragraph ends here, so a chunk may close after it */
+  breakAfter: boolean;
+}
+
+const SENTENCE_END = /[.!?:;]["')\]]?$/;
+
+/** Heading level of a line, or 0 if it reads as body text */
+function headingLevel(line: string): number {
+  const markdown = line.match(/^(#{1,6})\s+\S/);
+  if (markdown) return markdown[1].length;
+  if (line.length > 80 || SENTENCE_END.test(line)) return 0;
+  if (/^(chapter|part|unit|module|lecture|section)\s+[\dIVXLC]+\b/i.test(line)) return 1;
+  const numbered = line.match(/^(\d+(?:\.\d+)+)\.?\s+[A-Z]/);
+  if (numbered) return numbered[1].split(".").length;
+  if (line.length >= 4 && /[A-Z]{2}/.test(line) && line === line.toUpperCase() && !/^[\d\W]+$/.test(line)) return 2;
+  return 0;
+}
+
+function headingText(line: string): string {
+  return line.replace(/^#{1,6}\s+/, "").replace(/[#*_]+/g, "").trim();
+}
+
+/** Split an over-long line at sentence boundaries, then at word boundaries */
+function splitLine(line: string): string[] {
+  if (line.length <= MAX_CHUNK_CHARS) return [line];
+  const sentences = line.split(/(?<=[.!?]["')\]]?)\s+(?=["'([]?[A-Z0-9])/);
+  return sentences.flatMap((sentence) => {
+    if (sentence.length <= MAX_CHUNK_CHARS) return [sentence];
+    const parts: string[] = [];
+    let current = "";
+    for (const word of sentence.split(/\s+/)) {
+      if (current && current.length + word.length + 1 > MAX_CHUNK_CHARS) {
+        parts.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) parts.push(current);
+    return parts;
+  });
+}
+
+/** Re-join pieces, restoring line breaks (and blank lines) between them */
+function joinPieces(pieces: Piece[]): string {
+  let out = "";
+  pieces.forEach((p, i) => {
+    if (i > 0) {
+      const gap = p.line - pieces[i - 1].line;
+      out += gap === 0 ? " " : "\n".repeat(gap);
+    }
+    out += p.text;
+  });
+  return out;
+}
+
+/**
+ * Split page text into chunks along document structure: a new chunk starts at
+ * every heading and page, and an over-full chunk closes at the last sentence
+ * or paragraph end rather than mid-sentence. The heading stack carries across
+ * pages so each chunk knows the section it belongs to.
+ *
+ * Line numbers run through the whole document, skipped pages included, so a
+ * line keeps its number no matter which chunk or feature quotes it.
+ */
+export function chunkPages(pages: PageText[]): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  const headings: { level: number; text: string }[] = [];
+  let lineOffset = 0;
+
+  for (const page of pages) {
+    const lines = page.text.split("\n").map((l) => l.trimEnd());
+    const pageOffset = lineOffset;
+    lineOffset += lines.length;
+    if (page.text.trim().length < MIN_PAGE_CHARS) continue;
+
+    let pieces: Piece[] = [];
+    let size = 0;
+
+    const emit = (count: number) => {
+      const taken = pieces.slice(0, count);
+      pieces = pieces.slice(count);
+      size = pieces.reduce((n, p) => n + p.text.length + 1, 0);
+      const content = joinPieces(taken).trim();
+      if (content) {
+        const body = taken.find((p) => !p.isHeading) || taken[taken.length - 1];
+        chunks.push({
+          content,
+          page_number: page.page_number,
+          heading_path: body.headingPath,
+          ocr_confidence: page.ocr_confidence ?? null,
+          line_start: pageOffset + taken[0].line + 1,
+          line_end: pageOffset + taken[taken.length - 1].line + 1,
+        });
+      }
+    };
+
+    const add = (piece: Piece) => {
+      while (pieces.length > 0 && size + piece.text.length > MAX_CHUNK_CHARS) {
+        let cut = pieces.length;
+        for (let i = pieces.length - 1; i > 0; i--) {
+          if (pieces[i - 1].breakAfter) {
+            cut = i;
+            break;
+          }
+        }
+        emit(cut);
+      }
+      pieces.push(piece);
+      size += piece.text.length + 1;
+    };
+
+    let inFence = false;
+    lines.forEach((raw, lineIndex) => {
+      const line = raw.trim();
+      if (!line) {
+        if (pieces.length > 0) pieces[pieces.length - 1].breakAfter = true;
+        return;
+      }
+
+      // "# comment" inside a fenced code block is code, not a heading
+      if (/^(```|~~~)/.test(line)) inFence = !inFence;
+      const level = inFence ? 0 : headingLevel(line);
+      if (level > 0) {
+        // Consecutive headings stay together with the body that follows them
+        if (pieces.some((p) => !p.isHeading)) emit(pieces.length);
+        while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+        headings.push({ level, text: headingText(line) });
+      }
+
+      const headingPath = headings.map((h) => h.text).join(" > ") || null;
+      const parts = splitLine(raw);
+      parts.forEach((text, i) => {
+        add({
+          text,
+          line: lineIndex,
+          headingPath,
+          isHeading: level > 0,
+          breakAfter: level > 0 || (i === parts.length - 1 ? SENTENCE_END.test(line) : true),
+        });
+      });
+    });
+
+    emit(pieces.length);
+  }
+
+  return chunks;
+}
@@ -0,0 +1,74 @@
+import { unzipSync, strFromU8 } from "https://esm.sh/fflate@0.8.2";
+import { decodeXml } from "./xml.ts";
+
+/** Text of a <w:p>, keeping tabs and line breaks as whitespace */
+function runText(xml: string): string {
+  let out = "";
+  for (const m of xml.matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:br\/>/g)) {
+    if (m[1] !== undefined) out += decodeXml(m[1]);
+    else out += m[0] === "<w:tab/>" ? "\t" : " ";
+  }
+  return out.trim();
+}
+
+/** Markdown-style heading level from the paragraph style or outline level */
+function headingLevel(paragraph: string): number {
+  const style = paragraph.match(/<w:pStyle w:val="([^"]+)"/)?.[1] || "";
+  if (/^Title$/i.test(style)) return 1;
+  const styled = style.match(/heading\s?(\d)/i);
+  if (styled) return Math.min(Number(styled[1]), 6);
+  const outline = paragraph.match(/<w:outlineLvl w:val="(\d)"/);
+  if (outline) return Math.min(Number(outline[1]) + 1, 6);
+  return 0;
+}
+
+function tableLines(table: string): string[] {
+  return [...table.matchAll(/<w:tr[\s>][\s\S]*?<\/w:tr>/g)].map((row) =>
+    [...row[0].matchAll(/<w:tc[\s>][\s\S]*?<\/w:tc>/g)]
+      .map((cell) => [...cell[0].matchAll(/<w:p[\s>][\s\S]*?<\/w:p>/g)].map((p) => runText(p[0])).join(" "))
+      .join(" | ")
+  );
+}
+
+/**
+ * Convert a .docx body to Markdown-like text: heading styles become "#"
+ * headings, numbered/bulleted paragraphs become "- " items and table rows
+ * become "cell | cell" lines, so the chunker can see the structure.
+ */
+export function extractDocx(bytes: Uint8Array): string {
+  const files = unzipSync(bytes, { filter: (f) => f.name === "word/document.xml" });
+  const xml = files["word/document.xml"];
+  if (!xml) throw new Error("Not a Word document: word/document.xml is missing");
+
+  const body = strFromU8(xml);
+  const lines: string[] = [];
+  let inList = false;
+
+  for (const block of body.matchAll(/<w:tbl>[\s\S]*?<\/w:tbl>|<w:p[\s>][\s\S]*?<\/w:p>/g)) {
+    const xmlBlock = block[0];
+    if (xmlBlock.startsWith("<w:tbl>")) {
+      lines.push("", ...tableLines(xmlBlock), "");
+      inList = false;
+      continue;
+    }
+
+    const text = runText(xmlBlock);
+    if (!text) continue;
+
+    const level = headingLevel(xmlBlock);
+    if (level > 0) {
+      lines.push("", `${"#".repeat(level)} ${text}`, "");
+      inList = false;
+    } else if (xmlBlock.includes("<w:numPr>")) {
+      const depth = Number(xmlBlock.match(/<w:ilvl w:val="(\d)"/)?.[1] || 0);
+      lines.push(`${"  ".repeat(depth)}- ${text}`);
+      inList = true;
+    } else {
+      if (inList) lines.push("");
+      lines.push(text, "");
+      inList = false;
+    }
+  }
+
+  return lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
@@ -0,0 +1,104 @@
+import { DOMParser, type Element, type Node } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+
+const SKIP_TAGS = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "IFRAME", "SVG", "NAV", "FOOTER", "FORM", "BUTTON"]);
+const BLOCK_TAGS = new Set([
+  "P", "DIV", "SECTION", "ARTICLE", "MAIN", "HEADER", "ASIDE", "BLOCKQUOTE", "PRE", "FIGURE", "FIGCAPTION",
+  "H1", "H2", "H3", "H4", "H5", "H6", "UL", "OL", "LI", "TABLE", "DL", "DT", "DD", "HR", "BR",
+]);
+
+const TEXT_NODE = 3;
+const ELEMENT_NODE = 1;
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function isBlock(node: Node): boolean {
+  return node.nodeType === ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName);
+}
+
+/** Text of an element, leaving out nested lists (they get their own lines) */
+function inlineText(el: Element): string {
+  let out = "";
+  for (const child of Array.from(el.childNodes)) {
+    if (child.nodeType === TEXT_NODE) out += child.textContent;
+    else if (child.nodeType === ELEMENT_NODE) {
+      const tag = (child as Element).tagName.toUpperCase();
+      if (tag === "UL" || tag === "OL" || SKIP_TAGS.has(tag)) continue;
+      out += ` ${inlineText(child as Element)} `;
+    }
+  }
+  return collapse(out);
+}
+
+function listLines(list: Element, lines: string[], depth: number) {
+  let n = 0;
+  for (const item of Array.from(list.children)) {
+    if (item.tagName !== "LI") continue;
+    n++;
+    const marker = list.tagName === "OL" ? `${n}.` : "-";
+    const text = inlineText(item);
+    if (text) lines.push(`${"  ".repeat(depth)}${marker} ${text}`);
+    for (const nested of Array.from(item.children)) {
+      if (nested.tagName === "UL" || nested.tagName === "OL") listLines(nested, lines, depth + 1);
+    }
+  }
+}
+
+function walk(el: Element, lines: string[]) {
+  let inline = "";
+  const flush = () => {
+    const text = collapse(inline);
+    if (text) lines.push(text, "");
+    inline = "";
+  };
+
+  for (const child of Array.from(el.childNodes)) {
+    if (child.nodeType === TEXT_NODE) {
+      inline += child.textContent;
+      continue;
+    }
+    if (child.nodeType !== ELEMENT_NODE) continue;
+
+    const node = child as Element;
+    const tag = node.tagName.toUpperCase();
+    if (SKIP_TAGS.has(tag)) continue;
+    if (!isBlock(node)) {
+      inline += ` ${node.textContent} `;
+      continue;
+    }
+
+    flush();
+    if (/^H[1-6]$/.test(tag)) {
+      const text = collapse(node.textContent);
+      if (text) lines.push("", `${"#".repeat(Number(tag[1]))} ${text}`, "");
+    } else if (tag === "UL" || tag === "OL") {
+      listLines(node, lines, 0);
+      lines.push("");
+    } else if (tag === "TABLE") {
+      for (const row of Array.from(node.querySelectorAll("tr"))) {
+        const cells = Array.from((row as Element).children).map((cell) => collapse(cell.textContent));
+        if (cells.some(Boolean)) lines.push(cells.join(" | "));
+      }
+      lines.push("");
+    } else if (tag === "PRE") {
+      lines.push(...node.textContent.split("\n"), "");
+    } else if (Array.from(node.childNodes).some(isBlock)) {
+      walk(node, lines);
+    } else {
+      const text = collapse(node.textContent);
+      if (text) lines.push(text, "");
+    }
+  }
+  flush();
+}
+
+/** Convert a saved web page to Markdown-like text, dropping scripts and chrome */
+export function extractHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  if (!doc?.body) return "";
+
+  const lines: string[] = [];
+  walk(doc.body, lines);
+  return lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
@@ -1,37 +1,36 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createUserClient } from "../_shared/supabase.ts";
+import { embed } from "../_shared/embeddings.ts";
+import { extractPdfPages } from "./pdf.ts";
+import { extractDocx } from "./docx.ts";
+import { extractPptx } from "./pptx.ts";
+import { normalizeMarkdown } from "./markdown.ts";
+import { extractHtml } from "./html.ts";
+import { ocrImage } from "./ocr.ts";
+import { extractWithAI } from "./vision.ts";
+import { chunkPages, type PageText } from "./chunking.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
-function chunkText(text: string, chunkSize = 1000, overlap = 200): string[] {
-  const chunks: string[] = [];
-  let start = 0;
-  while (start < text.length) {
-    const end = Math.min(start + chunkSize, text.length);
-    chunks.push(text.slice(start, end));
-    start += chunkSize - overlap;
-  }
-  return chunks;
-}
-
-function estimatePage(charIndex: number, totalChars: number, estimatedPages: number): number {
-  return Math.max(1, Math.ceil((charIndex / totalChars) * estimatedPages));
-}
-
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
-  try {
-    const { document_id, subject_id, storage_path, filename } = await req.json();
+  // Parsed outside the try so a failure can still be recorded on the document
+  const { document_id, subject_id, storage_path, filename } = await req.json().catch(() => ({}));
 
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-    );
+  // Acting as the caller, so a document or file they don't own can't be
+  // read, and its status and chunks can't be written
+  const supabase = createUserClient(req);
+
+  const setStatus = (patch: { status: string; error?: string | null; chunk_count?: number }) =>
+    supabase.from("documents").update(patch).eq("id", document_id);
+
+  try {
+    await setStatus({ status: "processing", error: null });
 
     // Download file from storage
     const { data: fileData, error: downloadError } = await supabase.storage
@@ -42,103 +41,109 @@ Deno.serve(async (req) => {
       throw new Error(`Failed to download file: ${downloadError?.message}`);
     }
 
-    const arrayBuf = await fileData.arrayBuffer();
-    const bytes = new Uint8Array(arrayBuf);
-    
-    let text = "";
-    
-    if (filename.endsWith(".txt")) {
-      text = await fileData.text();
-    } else if (filename.endsWith(".pdf")) {
-      // Use AI to extract text from PDF - sends as base64
-      // Chunked base64 conversion to avoid call stack overflow
-      const chunkSize = 8192;
-      let binary = "";
-      for (let i = 0; i < bytes.length; i += chunkSize) {
-        const slice = bytes.subarray(i, Math.min(i + chunkSize, bytes.length));
-        for (let j = 0; j < slice.length; j++) {
-          binary += String.fromCharCode(slice[j]);
+    let pages: PageText[] = [];
+    const extension = filename.toLowerCase().split(".").pop();
+
+    switch (extension) {
+      case "pdf":
+        pages = await extractPdfPages(new Uint8Array(await fileData.arrayBuffer()));
+        break;
+      case "pptx":
+        pages = extractPptx(new Uint8Array(await fileData.arrayBuffer()));
+        break;
+      case "docx":
+        pages = [{ page_number: null, text: extractDocx(new Uint8Array(await fileData.arrayBuffer())) }];
+        break;
+      case "md":
+      case "markdown":
+        pages = [{ page_number: null, text: normalizeMarkdown(await fileData.text()) }];
+        break;
+      case "html":
+      case "htm":
+        pages = [{ page_number: null, text: extractHtml(await fileData.text()) }];
+        break;
+      case "txt":
+        pages = [{ page_number: null, text: await fileData.text() }];
+        break;
+      case "png":
+      case "jpg":
+      case "jpeg":
+      case "heic": {
+        const bytes = new Uint8Array(await fileData.arrayBuffer());
+        // An image OCR can't decode, or an engine that fails to load, still
+        // leaves the AI extractor
+        const ocr = await ocrImage(bytes, extension).catch((e) => {
+          console.error("OCR failed:", e);
+          return null;
+        });
+        if (ocr && ocr.text.length >= 10) {
+          pages = [{ page_number: null, text: ocr.text, ocr_confidence: ocr.confidence }];
+        } else {
+          const mimeType = extension === "jpg" ? "image/jpeg" : `image/${extension}`;
+          pages = [{ page_number: null, text: await extractWithAI(bytes, mimeType) }];
         }
+        break;
       }
-      const base64 = btoa(binary);
-      
-      const aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${Deno.env.get("LOVABLE_API_KEY")}`,
-        },
-        body: JSON.stringify({
-          model: "google/gemini-2.5-flash-lite",
-          messages: [
-            {
-              role: "user",
-              content: [
-                {
-                  type: "text",
-                  text: "Extract ALL text content from this PDF document. Return ONLY the extracted text, preserving structure, headings, and paragraphs. No commentary.",
-                },
-                {
-                  type: "image_url",
-                  image_url: { url: `data:application/pdf;base64,${base64}` },
-                },
-              ],
-            },
-          ],
-          temperature: 0,
-          max_tokens: 16000,
-        }),
-      });
-
-      if (aiResponse.ok) {
-        const aiData = await aiResponse.json();
-        text = aiData.choices?.[0]?.message?.content || "";
-      }
-      
-      // Fallback if AI extraction failed
-      if (!text || text.trim().length < 10) {
-        const rawText = new TextDecoder("utf-8", { fatal: false }).decode(bytes);
-        text = rawText.replace(/[^\x20-\x7E\n\r\t]/g, " ").replace(/\s{3,}/g, "\n").trim();
-        const lines = text.split("\n").filter(l => l.trim().length > 10);
-        text = lines.join("\n");
-      }
+      default:
+        throw new Error(`Unsupported file type: .${extension}`);
     }
 
-    if (!text || text.trim().length < 10) {
-      text = `[Document: ${filename} - Text extraction was limited. The document may contain images or complex formatting.]`;
+    if (!pages.some((p) => p.text.trim().length >= 10)) {
+      pages = [{
+        page_number: null,
+        text: `[Document: ${filename} - Text extraction was limited. The document may contain images or complex formatting.]`,
+      }];
     }
 
-    // Chunk the text
-    const textChunks = chunkText(text);
-    const estimatedPages = Math.max(1, Math.ceil(text.length / 3000));
+    const textChunks = chunkPages(pages);
 
-    // Verify document still exists before inserting chunks
+    // Verify the document still exists, and is the caller's, before inserting chunks
     const { data: docCheck } = await supabase.from("documents").select("id").eq("id", document_id).single();
     if (!docCheck) {
       throw new Error("Document was deleted before processing completed");
     }
 
-    // Insert chunks
-    const chunkRows = textChunks.map((content, index) => ({
-      document_id,
-      subject_id,
-      content,
-      page_number: estimatePage(index * 800, text.length, estimatedPages),
-      chunk_index: index,
-    }));
+    // Embed sequentially — the model runs on the function's CPU
+    const chunkRows = [];
+    for (const [index, chunk] of textChunks.entries()) {
+      const { content, heading_path } = chunk;
+      chunkRows.push({
+        document_id,
+        subject_id,
+        content,
+        page_number: chunk.page_number,
+        heading_path,
+        ocr_confidence: chunk.ocr_confidence,
+        line_start: chunk.line_start,
+        line_end: chunk.line_end,
+        chunk_index: index,
+        // The heading path gives short chunks the context of their section
+        embedding: await embed(heading_path ? `${heading_path}\n${content}` : content),
+      });
+    }
 
+    // Replace any chunks from an earlier run so reprocessing is idempotent
+    const { error: deleteError } = await supabase.from("chunks").delete().eq("document_id", document_id);
+    if (deleteError) {
+      throw new Error(`Failed to clear old chunks: ${deleteError.message}`);
+    }
+
+    // Insert chunks
     const { error: insertError } = await supabase.from("chunks").insert(chunkRows);
 
     if (insertError) {
       throw new Error(`Failed to insert chunks: ${insertError.message}`);
     }
 
+    await setStatus({ status: "ready", chunk_count: chunkRows.length });
+
     return new Response(
       JSON.stringify({ success: true, chunks_created: chunkRows.length }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
     console.error("Process document error:", error);
+    await setStatus({ status: "failed", error: error.message });
     return new Response(JSON.stringify({ error: error.message }), {
       status: 500,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -0,0 +1,21 @@
+/**
+ * Flatten Markdown (including Obsidian syntax) to readable text while keeping
+ * headings, lists and tables as they are. Every source line maps to one
+ * output line, so line numbers still match the original file.
+ */
+export function normalizeMarkdown(text: string): string {
+  const frontMatter = text.match(/^---\r?\n[\s\S]*?\r?\n---\r?\n/);
+  const body = frontMatter
+    ? "\n".repeat(frontMatter[0].split("\n").length - 1) + text.slice(frontMatter[0].length)
+    : text;
+
+  return body
+    .replace(/\r\n/g, "\n")
+    .replace(/!\[\[[^\]\n]*\]\]/g, "")
+    .replace(/\[\[([^\]|\n]+)\|([^\]\n]+)\]\]/g, "$2")
+    .replace(/\[\[([^\]\n]+)\]\]/g, "$1")
+    .replace(/!\[([^\]\n]*)\]\([^)\n]*\)/g, "$1")
+    .replace(/\[([^\]\n]+)\]\([^)\n]*\)/g, "$1")
+    .replace(/<!--.*?-->/g, "")
+    .replace(/==([^=\n]+)==/g, "$1");
+}
@@ -0,0 +1,163 @@
+import { createOCREngine, type OCREngine } from "npm:tesseract-wasm@0.11.0";
+import { decode, Image } from "https://deno.land/x/imagescript@1.3.0/mod.ts";
+import decodeHeic from "npm:heic-decode@2.1.0";
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+} from "https://esm.sh/pdf-lib@1.17.1";
+
+const WASM_URL = "https://cdn.jsdelivr.net/npm/tesseract-wasm@0.11.0/dist/tesseract-core.wasm";
+const MODEL_URL = Deno.env.get("OCR_MODEL_URL") ||
+  "https://raw.githubusercontent.com/tesseract-ocr/tessdata_fast/main/eng.traineddata";
+
+// Tesseract is slow on large photos and gains little above this size
+const MAX_IMAGE_SIDE = 2400;
+
+export interface OcrResult {
+  text: string;
+  /** Mean word confidence in [0, 1], weighted by word length */
+  confidence: number;
+}
+
+let enginePromise: Promise<OCREngine> | null = null;
+
+async function download(url: string): Promise<ArrayBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to download ${url}: ${response.status}`);
+  return response.arrayBuffer();
+}
+
+/**
+ * Load the engine and English model once per function instance. A failed
+ * load isn't kept, so the next document tries the download again.
+ */
+function getEngine(): Promise<OCREngine> {
+  enginePromise ??= (async () => {
+    const [wasm, model] = await Promise.all([download(WASM_URL), download(MODEL_URL)]);
+    const engine = await createOCREngine({ wasmBinary: wasm });
+    engine.loadModel(model);
+    return engine;
+  })().catch((error) => {
+    enginePromise = null;
+    throw error;
+  });
+  return enginePromise;
+}
+
+function fromImage(image: Image): ImageData {
+  const longest = Math.max(image.width, image.height);
+  if (longest > MAX_IMAGE_SIDE) {
+    image = image.width >= image.height
+      ? image.resize(MAX_IMAGE_SIDE, Image.RESIZE_AUTO)
+      : image.resize(Image.RESIZE_AUTO, MAX_IMAGE_SIDE);
+  }
+  return new ImageData(image.bitmap, image.width, image.height);
+}
+
+async function decodeBitmap(bytes: Uint8Array, extension: string): Promise<ImageData> {
+  if (extension === "heic") {
+    const { width, height, data } = await decodeHeic({ buffer: bytes });
+    const image = new Image(width, height);
+    image.bitmap.set(data);
+    return fromImage(image);
+  }
+  const decoded = await decode(bytes, true);
+  if (!(decoded instanceof Image)) throw new Error("Animated images are not supported");
+  return fromImage(decoded);
+}
+
+async function recognize(bitmap: ImageData): Promise<OcrResult> {
+  const engine = await getEngine();
+  engine.loadImage(bitmap);
+
+  const words = engine.getTextBoxes("word");
+  const text = engine.getText();
+  engine.clearImage();
+
+  const weight = words.reduce((n, w) => n + w.text.length, 0);
+  const confidence = weight > 0
+    ? words.reduce((n, w) => n + w.confidence * w.text.length, 0) / weight
+    : 0;
+  return { text: text.trim(), confidence };
+}
+
+/** OCR a photographed or scanned image (.png, .jpg, .heic) */
+export async function ocrImage(bytes: Uint8Array, extension: string): Promise<OcrResult> {
+  return recognize(await decodeBitmap(bytes, extension));
+}
+
+/** Expand 8-bit gray or RGB samples to RGBA */
+function toRgba(samples: Uint8Array, width: number, height: number, components: number): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0, j = 0; i < width * height; i++, j += components) {
+    rgba[i * 4] = samples[j];
+    rgba[i * 4 + 1] = samples[components === 3 ? j + 1 : j];
+    rgba[i * 4 + 2] = samples[components === 3 ? j + 2 : j];
+    rgba[i * 4 + 3] = 255;
+  }
+  return rgba;
+}
+
+/**
+ * Decode the largest image drawn on a PDF page — for a scan, the page itself.
+ * Handles JPEG (DCTDecode) and plain 8-bit Flate images; other encodings
+ * such as CCITT or JBIG2 return null so the caller can fall back.
+ */
+async function largestPageImage(doc: PDFDocument, pageIndex: number): Promise<ImageData | null> {
+  const resources = doc.getPage(pageIndex).node.Resources();
+  const xobjects = resources?.lookupMaybe(PDFName.of("XObject"), PDFDict);
+  if (!xobjects) return null;
+
+  let best: PDFRawStream | null = null;
+  let bestArea = 0;
+  for (const [, ref] of xobjects.entries()) {
+    const stream = doc.context.lookup(ref);
+    if (!(stream instanceof PDFRawStream)) continue;
+    if (stream.dict.get(PDFName.of("Subtype")) !== PDFName.of("Image")) continue;
+    const width = stream.dict.lookupMaybe(PDFName.of("Width"), PDFNumber)?.asNumber() || 0;
+    const height = stream.dict.lookupMaybe(PDFName.of("Height"), PDFNumber)?.asNumber() || 0;
+    if (width * height > bestArea) {
+      best = stream;
+      bestArea = width * height;
+    }
+  }
+  if (!best) return null;
+
+  const filterObj = best.dict.get(PDFName.of("Filter"));
+  const filters = filterObj instanceof PDFArray
+    ? filterObj.asArray().map((f) => f.toString())
+    : filterObj ? [filterObj.toString()] : [];
+
+  if (filters.length === 1 && filters[0] === "/DCTDecode") {
+    const decoded = await decode(best.contents, true);
+    return decoded instanceof Image ? fromImage(decoded) : null;
+  }
+
+  if (filters.every((f) => f === "/FlateDecode")) {
+    const width = best.dict.lookup(PDFName.of("Width"), PDFNumber).asNumber();
+    const height = best.dict.lookup(PDFName.of("Height"), PDFNumber).asNumber();
+    const bits = best.dict.lookupMaybe(PDFName.of("BitsPerComponent"), PDFNumber)?.asNumber();
+    const colorSpace = best.dict.get(PDFName.of("ColorSpace"))?.toString();
+    const components = colorSpace === "/DeviceRGB" ? 3 : colorSpace === "/DeviceGray" ? 1 : 0;
+    if (bits !== 8 || components === 0 || best.dict.has(PDFName.of("DecodeParms"))) return null;
+
+    const samples = decodePDFRawStream(best).decode();
+    if (samples.length < width * height * components) return null;
+    const image = new Image(width, height);
+    image.bitmap.set(toRgba(samples, width, height, components));
+    return fromImage(image);
+  }
+
+  return null;
+}
+
+/** OCR a scanned PDF page from its embedded image, or null if it can't be decoded */
+export async function ocrPdfPage(doc: PDFDocument, pageIndex: number): Promise<OcrResult | null> {
+  const bitmap = await largestPageImage(doc, pageIndex);
+  return bitmap ? recognize(bitmap) : null;
+}
@@ -0,0 +1,53 @@
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import { PDFDocument } from "https://esm.sh/pdf-lib@1.17.1";
+import type { PageText } from "./chunking.ts";
+import { ocrPdfPage } from "./ocr.ts";
+import { extractWithAI } from "./vision.ts";
+
+// Below this many characters a page is treated as scanned (no text layer)
+const MIN_PAGE_TEXT = 20;
+// OCR output below this confidence is handed to the AI extractor instead
+const MIN_OCR_CONFIDENCE = 0.3;
+
+/** Copy one page out of a PDF into its own document */
+async function singlePagePdf(source: PDFDocument, pageIndex: number): Promise<Uint8Array> {
+  const out = await PDFDocument.create();
+  const [page] = await out.copyPages(source, [pageIndex]);
+  out.addPage(page);
+  return await out.save();
+}
+
+/**
+ * Extract text page by page from the PDF's text layer so every chunk keeps
+ * its true page number. Pages without a text layer (scans) are OCR'd from
+ * their embedded image; if that fails, the page alone goes to AI extraction.
+ */
+export async function extractPdfPages(bytes: Uint8Array): Promise<PageText[]> {
+  // pdf.js may detach the buffer it is given, so hand it a copy
+  const pdf = await getDocumentProxy(bytes.slice());
+  const { text } = await extractText(pdf, { mergePages: false });
+
+  const pages: PageText[] = [];
+  let source: PDFDocument | null = null;
+
+  for (const [index, pageText] of text.entries()) {
+    let content = pageText.trim();
+    let ocrConfidence: number | null = null;
+    if (content.length < MIN_PAGE_TEXT) {
+      source ??= await PDFDocument.load(bytes, { ignoreEncryption: true });
+      const ocr = await ocrPdfPage(source, index).catch((e) => {
+        console.error(`OCR failed on page ${index + 1}:`, e);
+        return null;
+      });
+      if (ocr && ocr.text.length >= MIN_PAGE_TEXT && ocr.confidence >= MIN_OCR_CONFIDENCE) {
+        content = ocr.text;
+        ocrConfidence = ocr.confidence;
+      } else {
+        content = (await extractWithAI(await singlePagePdf(source, index), "application/pdf")).trim();
+      }
+    }
+    if (content) pages.push({ page_number: index + 1, text: content, ocr_confidence: ocrConfidence });
+  }
+
+  return pages;
+}
@@ -0,0 +1,93 @@
+import { unzipSync, strFromU8 } from "https://esm.sh/fflate@0.8.2";
+import { decodeXml } from "./xml.ts";
+import type { PageText } from "./chunking.ts";
+
+function paragraphs(xml: string): string[] {
+  return [...xml.matchAll(/<a:p>[\s\S]*?<\/a:p>/g)]
+    .map((p) => [...p[0].matchAll(/<a:t>([\s\S]*?)<\/a:t>/g)].map((t) => decodeXml(t[1])).join("").trim())
+    .filter(Boolean);
+}
+
+/** Relationship id → target path, resolved against the part's folder */
+function relationships(files: Record<string, Uint8Array>, relsPath: string, baseDir: string): Map<string, { type: string; target: string }> {
+  const rels = new Map<string, { type: string; target: string }>();
+  const xml = files[relsPath];
+  if (!xml) return rels;
+  for (const m of strFromU8(xml).matchAll(/<Relationship\s[^>]*>/g)) {
+    const id = m[0].match(/Id="([^"]+)"/)?.[1];
+    const type = m[0].match(/Type="([^"]+)"/)?.[1] || "";
+    const target = m[0].match(/Target="([^"]+)"/)?.[1];
+    if (!id || !target) continue;
+    const parts = `${baseDir}/${target}`.split("/");
+    const resolved: string[] = [];
+    for (const part of parts) {
+      if (part === "..") resolved.pop();
+      else if (part !== ".") resolved.push(part);
+    }
+    rels.set(id, { type, target: resolved.join("/") });
+  }
+  return rels;
+}
+
+function slideText(xml: string): { title: string; body: string[] } {
+  let title = "";
+  const body: string[] = [];
+  for (const shape of xml.matchAll(/<p:sp>[\s\S]*?<\/p:sp>|<p:graphicFrame>[\s\S]*?<\/p:graphicFrame>/g)) {
+    const isTitle = /<p:ph[^>]*type="(title|ctrTitle)"/.test(shape[0]);
+    if (shape[0].startsWith("<p:graphicFrame>")) {
+      for (const row of shape[0].matchAll(/<a:tr[\s>][\s\S]*?<\/a:tr>/g)) {
+        const cells = [...row[0].matchAll(/<a:tc[\s>][\s\S]*?<\/a:tc>/g)].map((c) => paragraphs(c[0]).join(" "));
+        if (cells.some(Boolean)) body.push(cells.join(" | "));
+      }
+    } else if (isTitle && !title) {
+      title = paragraphs(shape[0]).join(" ");
+    } else {
+      body.push(...paragraphs(shape[0]));
+    }
+  }
+  return { title, body };
+}
+
+function notesText(xml: string): string[] {
+  // Skip the slide thumbnail and slide number placeholders
+  return [...xml.matchAll(/<p:sp>[\s\S]*?<\/p:sp>/g)]
+    .filter((shape) => !/<p:ph[^>]*type="(sldImg|sldNum|hdr|ftr|dt)"/.test(shape[0]))
+    .flatMap((shape) => paragraphs(shape[0]));
+}
+
+/**
+ * Extract each slide of a .pptx as its own page: the slide title as a
+ * heading, body text and tables, then the speaker notes. Slides are numbered
+ * in presentation order, which is what PowerPoint shows.
+ */
+export function extractPptx(bytes: Uint8Array): PageText[] {
+  const files = unzipSync(bytes, {
+    filter: (f) => f.name.startsWith("ppt/") && (f.name.endsWith(".xml") || f.name.endsWith(".rels")),
+  });
+  const presentation = files["ppt/presentation.xml"];
+  if (!presentation) throw new Error("Not a PowerPoint deck: ppt/presentation.xml is missing");
+
+  const presentationRels = relationships(files, "ppt/_rels/presentation.xml.rels", "ppt");
+  const slideIds = [...strFromU8(presentation).matchAll(/<p:sldId\s[^>]*r:id="([^"]+)"/g)].map((m) => m[1]);
+
+  const pages: PageText[] = [];
+  slideIds.forEach((rId, index) => {
+    const slidePath = presentationRels.get(rId)?.target;
+    const slideXml = slidePath && files[slidePath];
+    if (!slideXml) return;
+
+    const slideNumber = index + 1;
+    const { title, body } = slideText(strFromU8(slideXml));
+
+    const slideName = slidePath.split("/").pop();
+    const slideRels = relationships(files, `ppt/slides/_rels/${slideName}.rels`, "ppt/slides");
+    const notesPath = [...slideRels.values()].find((r) => r.type.endsWith("/notesSlide"))?.target;
+    const notes = notesPath && files[notesPath] ? notesText(strFromU8(files[notesPath])) : [];
+
+    const lines = [`# ${title || `Slide ${slideNumber}`}`, ...body];
+    if (notes.length > 0) lines.push("", "Speaker notes:", ...notes);
+    pages.push({ page_number: slideNumber, text: lines.join("\n") });
+  });
+
+  return pages;
+}
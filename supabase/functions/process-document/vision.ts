@@ -0,0 +1,50 @@
+function toBase64(bytes: Uint8Array): string {
+  // Chunked conversion to avoid call stack overflow
+  const chunkSize = 8192;
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    const slice = bytes.subarray(i, Math.min(i + chunkSize, bytes.length));
+    for (let j = 0; j < slice.length; j++) {
+      binary += String.fromCharCode(slice[j]);
+    }
+  }
+  return btoa(binary);
+}
+
+/** Last-resort extraction: ask Gemini to read a page or image that OCR could not */
+export async function extractWithAI(bytes: Uint8Array, mimeType: string): Promise<string> {
+  const aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${Deno.env.get("LOVABLE_API_KEY")}`,
+    },
+    body: JSON.stringify({
+      model: "google/gemini-2.5-flash-lite",
+      messages: [
+        {
+          role: "user",
+          content: [
+            {
+              type: "text",
+              text: "Extract ALL text content from this page. Return ONLY the extracted text, preserving structure, headings, and paragraphs. No commentary.",
+            },
+            {
+              type: "image_url",
+              image_url: { url: `data:${mimeType};base64,${toBase64(bytes)}` },
+            },
+          ],
+        },
+      ],
+      temperature: 0,
+      max_tokens: 8000,
+    }),
+  });
+
+  if (!aiResponse.ok) {
+    console.error("AI extraction failed:", aiResponse.status);
+    return "";
+  }
+  const aiData = await aiResponse.json();
+  return aiData.choices?.[0]?.message?.content || "";
+}
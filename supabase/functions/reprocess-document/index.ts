@@ -0,0 +1,79 @@
+import { createUserClient } from "../_shared/supabase.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+// A document queued or processing for longer than this was dropped: the
+// process-document call running it is stopped long before
+const STALLED_AFTER_MS = 10 * 60 * 1000;
+
+// Queues one document, or every document of a subject ("rebuild index"), to
+// have extraction, chunking and embedding run again. The caller then starts
+// process-document for each queued document, one call apiece and a few at a
+// time, so a rebuild isn't bound to a single call's time limit. process-document replaces a
+// document's chunks on each run, so this is safe to call repeatedly.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { document_id, subject_id } = await req.json();
+    if (!document_id && !subject_id) {
+      return new Response(JSON.stringify({ error: "document_id or subject_id is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createUserClient(req);
+
+    let query = supabase.from("documents").select("id, subject_id, storage_path, filename, status, updated_at");
+    query = document_id ? query.eq("id", document_id) : query.eq("subject_id", subject_id);
+    const { data: docs, error } = await query.order("created_at");
+    if (error) throw new Error(`Failed to load documents: ${error.message}`);
+
+    if (!docs || docs.length === 0) {
+      return new Response(JSON.stringify({ error: "No documents found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Leave documents that are still being worked on, unless they've stalled
+    const stalledBefore = Date.now() - STALLED_AFTER_MS;
+    const runnable = docs.filter((d) =>
+      (d.status !== "queued" && d.status !== "processing") || Date.parse(d.updated_at) < stalledBefore
+    );
+    if (runnable.length === 0) {
+      return new Response(JSON.stringify({ error: "Already being processed" }), {
+        status: 409,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { error: queueError } = await supabase
+      .from("documents")
+      .update({ status: "queued", error: null })
+      .in("id", runnable.map((d) => d.id));
+    if (queueError) throw new Error(`Failed to queue documents: ${queueError.message}`);
+
+    const documents = runnable.map(({ id, subject_id, storage_path, filename }) => ({
+      id,
+      subject_id,
+      storage_path,
+      filename,
+    }));
+    return new Response(JSON.stringify({ queued: documents.length, documents }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Reprocess document error:", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
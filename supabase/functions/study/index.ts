@@ -1,22 +1,209 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createUserClient } from "../_shared/supabase.ts";
+import { retrieveChunks, retrievalScores } from "../_shared/retrieval.ts";
+import { buildContext } from "../_shared/context.ts";
+import {
+  describeRequest,
+  prepareQuestion,
+  questionsTool,
+  QUESTION_TYPES,
+  type GeneratedQuestion,
+  type QuestionType,
+} from "./questions.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+type Difficulty = "easy" | "medium" | "hard" | "mixed";
+
+const DIFFICULTY_GUIDANCE: Record<Difficulty, string> = {
+  easy: "Easy: recall of definitions and facts stated directly in the notes.",
+  medium: "Medium: understanding. Ask to explain, compare or apply ideas from the notes.",
+  hard: "Hard: analysis. Combine several ideas from the notes and reason about cases they imply.",
+  mixed: "Mixed: vary difficulty from direct recall to questions combining several ideas.",
+};
+
+const MAX_PER_TYPE = 15;
+
+/** Model calls per set: the first, then retries for questions that failed validation */
+const MAX_ATTEMPTS = 3;
+
+/** Options a set is generated with */
+interface StudyOptions {
+  topic?: string;
+  /** Questions to generate of each type */
+  counts: Record<QuestionType, number>;
+  difficulty: Difficulty;
+  /** Limit the questions to these documents; empty means the whole subject */
+  documentIds: string[];
+}
+
+function clampCount(value: unknown, fallback: number): number {
+  const n = value === undefined || value === null ? fallback : Math.round(Number(value));
+  return Number.isFinite(n) ? Math.min(MAX_PER_TYPE, Math.max(0, n)) : fallback;
+}
+
+/** Read the options from a request body; counts come as `<type>_count` */
+function parseOptions(body: Record<string, unknown>): StudyOptions {
+  const difficulty = String(body.difficulty ?? "mixed") as Difficulty;
+  const counts = Object.fromEntries(
+    (Object.keys(QUESTION_TYPES) as QuestionType[]).map((type) => [
+      type,
+      clampCount(body[`${type}_count`], QUESTION_TYPES[type].defaultCount),
+    ]),
+  ) as Record<QuestionType, number>;
+  return {
+    topic: typeof body.topic === "string" && body.topic.trim() ? body.topic.trim() : undefined,
+    counts,
+    difficulty: difficulty in DIFFICULTY_GUIDANCE ? difficulty : "mixed",
+    documentIds: Array.isArray(body.document_ids) ? body.document_ids.map(String) : [],
+  };
+}
+
+/** Split a generated question into the shared columns and its type-specific payload */
+function questionRow(type: QuestionType, q: GeneratedQuestion) {
+  const { id: _id, question, citation, quotedText, quotedLines, verified, confidence, ...payload } = q;
+  return {
+    type,
+    question: question || "",
+    payload,
+    citation: citation ?? null,
+    quoted_text: quotedText ?? null,
+    quoted_lines: quotedLines ?? null,
+    verified: verified ?? null,
+    confidence: confidence ?? null,
+  };
+}
+
+/**
+ * Ask the model for questions by forcing a call to the questions tool.
+ * Returns the tool's arguments, or null when the call doesn't parse.
+ * `feedback` tells the model what was wrong with its earlier questions.
+ */
+async function generateQuestions(
+  subjectName: string,
+  options: StudyOptions,
+  counts: Record<QuestionType, number>,
+  context: string,
+  feedback: string,
+): Promise<Record<string, unknown> | null> {
+  const { topic, difficulty } = options;
+  const aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${Deno.env.get("LOVABLE_API_KEY")}`,
+    },
+    body: JSON.stringify({
+      model: "google/gemini-3-flash-preview",
+      messages: [
+        {
+          role: "system",
+          content: `You are a study assistant for "${subjectName}".
+
+Using ONLY the provided context${topic ? `, focusing on "${topic}"` : ""}, generate:
+
+${describeRequest(counts)}
+
+DIFFICULTY: ${DIFFICULTY_GUIDANCE[difficulty]}
+
+STRICT RULES:
+- Do NOT use outside knowledge.
+- Do NOT ask questions about metadata, file names, dates, or document properties.
+- ONLY ask questions about the actual content and concepts within the notes.
+- If the notes can't support a question, write fewer rather than inventing one.
+- Every question must quote the notes and cite the file and page from the source header.
+- Add confidence level (High/Medium/Low) for each question.
+- Cover different topics from the notes.
+
+NOTES:
+${context}`,
+        },
+        { role: "user", content: `Generate study questions from these notes.${feedback ? `\n\n${feedback}` : ""}` },
+      ],
+      temperature: 0.7,
+      tools: [questionsTool(counts)],
+      tool_choice: { type: "function", function: { name: "save_questions" } },
+    }),
+  });
+
+  if (!aiResponse.ok) {
+    console.error("AI error:", aiResponse.status, await aiResponse.text());
+    throw new Error(`AI request failed: ${aiResponse.status}`);
+  }
+
+  const aiData = await aiResponse.json();
+  try {
+    const args = JSON.parse(aiData.choices?.[0]?.message?.tool_calls?.[0]?.function?.arguments ?? "");
+    return args && typeof args === "object" ? args : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save a generated set and its questions so it can be reopened later.
+ * Returns the stored rows, which carry the ids answers are recorded against.
+ */
+async function saveStudySet(
+  supabase: SupabaseClient,
+  subjectId: string,
+  options: StudyOptions,
+  questions: { type: QuestionType; question: GeneratedQuestion }[],
+) {
+  const { data: set, error: setError } = await supabase
+    .from("study_sets")
+    .insert({
+      subject_id: subjectId,
+      topic: options.topic ?? null,
+      difficulty: options.difficulty,
+      document_ids: options.documentIds.length > 0 ? options.documentIds : null,
+      question_count: questions.length,
+    })
+    .select()
+    .single();
+  if (setError) throw new Error(`Failed to save study set: ${setError.message}`);
+
+  const rows = questions.map(({ type, question }, position) => ({
+    ...questionRow(type, question),
+    position,
+    study_set_id: set.id,
+    subject_id: subjectId,
+  }));
+  const { data: saved, error: questionsError } = await supabase
+    .from("study_questions")
+    .insert(rows)
+    .select()
+    .order("position");
+  if (questionsError) {
+    await supabase.from("study_sets").delete().eq("id", set.id);
+    throw new Error(`Failed to save study questions: ${questionsError.message}`);
+  }
+
+  return { study_set: set, questions: saved };
+}
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { subject_id } = await req.json();
+    const body = await req.json();
+    const subject_id = body.subject_id;
+    const options = parseOptions(body);
+    const { topic, counts } = options;
+    const totalCount = Object.values(counts).reduce((sum, n) => sum + n, 0);
+    if (totalCount === 0) {
+      return new Response(JSON.stringify({ error: "Ask for at least one question" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-    );
+    const supabase = createUserClient(req);
 
     // Get subject
     const { data: subject } = await supabase
@@ -32,17 +219,16 @@ Deno.serve(async (req) => {
       });
     }
 
-    // Get chunks
-    const { data: chunks } = await supabase
-      .from("chunks")
-      .select("content, page_number, document_id")
-      .eq("subject_id", subject_id)
-      .order("chunk_index");
+    // Pick context by hybrid search on the topic, or on the subject name for
+    // a general quiz — small subjects fit entirely within the match count.
+    // Longer sets get more context so questions don't pile onto a few chunks.
+    const matchCount = Math.min(48, Math.max(24, totalCount * 3));
+    const chunks = await retrieveChunks(supabase, subject_id, topic || subject.name, matchCount, options.documentIds);
 
     if (!chunks || chunks.length === 0) {
       return new Response(
-        JSON.stringify({ mcqs: [], shortAnswers: [] }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ error: "There are no processed notes to write questions from yet. Upload some, or wait for them to finish processing." }),
+        { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
@@ -55,110 +241,65 @@ Deno.serve(async (req) => {
 
     const docMap = new Map(docs?.map((d) => [d.id, d.filename]) || []);
 
-    const context = chunks
-      .map((c, idx) => {
-        const filename = docMap.get(c.document_id) || "unknown";
-        const lines = c.content.split("\n");
-        const startLine = idx * 50 + 1;
-        const numberedContent = lines.map((line, li) => `L${startLine + li}: ${line}`).join("\n");
-        return `[Source: ${filename}, Page ${c.page_number || "N/A"}, Section ${idx + 1}]\n${numberedContent}`;
-      })
-      .join("\n\n---\n\n");
-
-    const aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${Deno.env.get("LOVABLE_API_KEY")}`,
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [
-          {
-            role: "system",
-            content: `You are a study assistant for "${subject.name}".
-
-Using ONLY the provided context, generate:
-
-1) 5 Multiple Choice Questions (MCQs)
-   - 4 options each
-   - Indicate correct answer
-   - Provide brief explanation
-   - Add citation (file name + chunk/page)
-
-2) 3 Short Answer Questions
-   - Provide model answer
-   - Add citation
+    const { context, sources } = buildContext(chunks, docMap);
 
-STRICT RULES:
-- Do NOT use outside knowledge.
-- Do NOT ask questions about metadata, file names, dates, or document properties.
-- ONLY ask questions about the actual content and concepts within the notes.
-- If insufficient information, say: "Not enough information in notes."
-- Every question and answer must include citation.
-- Add confidence level (High/Medium/Low) for each question.
-- Make questions varied in difficulty. Cover different topics from the notes.
-
-Return response in JSON format:
-{
-  "mcqs": [
-    {
-      "id": "unique string",
-      "question": "",
-      "options": [
-        {"label": "A", "text": ""},
-        {"label": "B", "text": ""},
-        {"label": "C", "text": ""},
-        {"label": "D", "text": ""}
-      ],
-      "correctAnswer": "A/B/C/D",
-      "explanation": "",
-      "quotedText": "exact short quote from the notes that supports the answer",
-      "quotedLines": "L12-L15",
-      "citation": {"filename": "", "page": ""},
-      "confidence": "High/Medium/Low"
-    }
-  ],
-  "shortAnswers": [
-    {
-      "id": "unique string",
-      "question": "",
-      "modelAnswer": "",
-      "quotedText": "exact short quote from the notes that supports the answer",
-      "quotedLines": "L12-L15",
-      "citation": {"filename": "", "page": ""},
-      "confidence": "High/Medium/Low"
-    }
-  ]
-}
+    // Check each question's fields and supporting quote, correcting its
+    // citation. Rejected questions go back to the model with what's wrong, and
+    // it's asked for as many as are still missing of each type.
+    const types = Object.keys(QUESTION_TYPES) as QuestionType[];
+    const accepted = Object.fromEntries(types.map((type) => [type, []])) as Record<QuestionType, GeneratedQuestion[]>;
+    const seen = new Set<string>();
+    let feedback = "";
 
-NOTES:
-${context}`,
-          },
-          { role: "user", content: "Generate study questions from these notes." },
-        ],
-        temperature: 0.7,
-      }),
-    });
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const missing = Object.fromEntries(
+        types.map((type) => [type, counts[type] - accepted[type].length]),
+      ) as Record<QuestionType, number>;
+      if (types.every((type) => missing[type] <= 0)) break;
 
-    if (!aiResponse.ok) {
-      throw new Error(`AI request failed: ${aiResponse.status}`);
-    }
+      const result = await generateQuestions(subject.name, options, missing, context, feedback);
+      if (!result) {
+        feedback = "Your last reply didn't match the save_questions schema. Call it again with every required field.";
+        continue;
+      }
 
-    const aiData = await aiResponse.json();
-    const raw = aiData.choices?.[0]?.message?.content || "";
+      const problems: string[] = [];
+      for (const type of types) {
+        const generated: GeneratedQuestion[] = Array.isArray(result[QUESTION_TYPES[type].key])
+          ? result[QUESTION_TYPES[type].key] as GeneratedQuestion[]
+          : [];
+        for (const q of generated) {
+          if (accepted[type].length >= counts[type]) break;
+          const prepared = prepareQuestion(type, q, sources);
+          if (!prepared.ok) {
+            problems.push(`- ${QUESTION_TYPES[type].title}: "${q?.question ?? q?.sentence ?? ""}" — ${prepared.problem}`);
+            continue;
+          }
+          const text = String(prepared.question.question).toLowerCase();
+          if (seen.has(text)) continue;
+          seen.add(text);
+          accepted[type].push(prepared.question);
+        }
+      }
 
-    let parsed;
-    try {
-      const jsonMatch = raw.match(/\{[\s\S]*\}/);
-      parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : null;
-    } catch {
-      parsed = null;
+      const kept = types.flatMap((type) => accepted[type].map((q) => `- ${q.question}`));
+      feedback = [
+        problems.length > 0 && `These questions were rejected. Fix them, or write new ones in their place:\n${problems.join("\n")}`,
+        kept.length > 0 && `These are already in the set; don't repeat them:\n${kept.join("\n")}`,
+      ].filter(Boolean).join("\n\n");
+    }
+
+    const questions = types.flatMap((type) => accepted[type].map((question) => ({ type, question })));
+    if (questions.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "Couldn't write questions that check out against your notes. Try a broader topic or other files." }),
+        { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    const result = parsed || { mcqs: [], shortAnswers: [] };
+    const saved = await saveStudySet(supabase, subject_id, options, questions);
 
-    return new Response(JSON.stringify(result), {
+    return new Response(JSON.stringify({ ...saved, retrieval: retrievalScores(chunks, docMap) }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error) {
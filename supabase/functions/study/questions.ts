@@ -0,0 +1,345 @@
+import type { ContextSource } from "../_shared/context.ts";
+import { verifyQuestion, type Citation } from "../_shared/verify.ts";
+
+export interface GeneratedQuestion {
+  id?: string;
+  question?: string;
+  quotedText?: string;
+  quotedLines?: string;
+  citation?: Citation;
+  verified?: boolean;
+  confidence?: string;
+  [field: string]: unknown;
+}
+
+export type QuestionType = "mcq" | "short_answer" | "true_false" | "cloze" | "matching" | "ordering";
+
+interface QuestionTypeSpec {
+  /** Key of the type's array in the generation tool's arguments */
+  key: string;
+  title: string;
+  defaultCount: number;
+  instructions: string[];
+  /** JSON Schema properties of one question, minus the quote, citation and confidence every type has */
+  properties: Record<string, unknown>;
+  required: string[];
+}
+
+const LABELS = ["A", "B", "C", "D"];
+
+const explanation = { type: "string", description: "Why the answer is right, in a sentence or two" };
+
+export const QUESTION_TYPES: Record<QuestionType, QuestionTypeSpec> = {
+  mcq: {
+    key: "mcqs",
+    title: "Multiple Choice Questions (MCQs)",
+    defaultCount: 5,
+    instructions: ["4 distinct options labelled A–D", "Exactly one correct option", "Provide brief explanation"],
+    properties: {
+      question: { type: "string" },
+      options: {
+        type: "array",
+        minItems: 4,
+        maxItems: 4,
+        items: {
+          type: "object",
+          properties: { label: { type: "string", enum: LABELS }, text: { type: "string" } },
+          required: ["label", "text"],
+          additionalProperties: false,
+        },
+      },
+      correctAnswer: { type: "string", enum: LABELS, description: "Label of the correct option" },
+      explanation,
+    },
+    required: ["question", "options", "correctAnswer", "explanation"],
+  },
+  short_answer: {
+    key: "shortAnswers",
+    title: "Short Answer Questions",
+    defaultCount: 3,
+    instructions: ["Provide model answer"],
+    properties: {
+      question: { type: "string" },
+      modelAnswer: { type: "string", description: "What a full-marks answer says, in two or three sentences" },
+    },
+    required: ["question", "modelAnswer"],
+  },
+  true_false: {
+    key: "trueFalse",
+    title: "True/False Statements",
+    defaultCount: 0,
+    instructions: [
+      "A single statement that the notes show to be true or false",
+      "Make false statements plausible by changing one detail",
+      "Provide brief explanation",
+    ],
+    properties: {
+      question: { type: "string", description: "The statement" },
+      answer: { type: "boolean", description: "Whether the statement is true" },
+      explanation,
+    },
+    required: ["question", "answer", "explanation"],
+  },
+  cloze: {
+    key: "cloze",
+    title: "Fill-in-the-Blank (Cloze) Sentences",
+    defaultCount: 0,
+    instructions: [
+      "Copy one sentence from the notes EXACTLY, character for character",
+      "Pick 1–3 key words or short phrases in it to blank out, copied exactly as they appear",
+      "Use the sentence as the quotedText",
+    ],
+    properties: {
+      sentence: { type: "string", description: "A sentence copied exactly from the notes" },
+      blanks: {
+        type: "array",
+        minItems: 1,
+        maxItems: 3,
+        items: { type: "string" },
+        description: "Words or phrases of the sentence to blank out, in the order they appear",
+      },
+      explanation,
+    },
+    required: ["sentence", "blanks", "explanation"],
+  },
+  matching: {
+    key: "matching",
+    title: "Term–Definition Matching Questions",
+    defaultCount: 0,
+    instructions: ["3–6 pairs of a term and its definition from the notes", "Each definition fits only one term"],
+    properties: {
+      question: { type: "string", description: "e.g. Match each term to its definition" },
+      pairs: {
+        type: "array",
+        minItems: 3,
+        maxItems: 6,
+        items: {
+          type: "object",
+          properties: { term: { type: "string" }, definition: { type: "string" } },
+          required: ["term", "definition"],
+          additionalProperties: false,
+        },
+      },
+      explanation,
+    },
+    required: ["question", "pairs", "explanation"],
+  },
+  ordering: {
+    key: "ordering",
+    title: "Sequence Ordering Questions",
+    defaultCount: 0,
+    instructions: [
+      "3–7 steps, stages or events the notes give in a definite order",
+      "List the items in the correct order",
+    ],
+    properties: {
+      question: { type: "string", description: "e.g. Put these steps in order" },
+      items: { type: "array", minItems: 3, maxItems: 7, items: { type: "string" }, description: "In the correct order" },
+      explanation,
+    },
+    required: ["question", "items", "explanation"],
+  },
+};
+
+/** Fields every generated question carries, whatever its type */
+const SOURCE_PROPERTIES = {
+  quotedText: { type: "string", description: "Exact short quote from the notes that supports the answer" },
+  quotedLines: { type: "string", description: "Line range of the quote, like L12-L15" },
+  citation: {
+    type: "object",
+    properties: {
+      filename: { type: "string" },
+      page: { type: "string", description: "Page or slide number from the source header, digits only" },
+    },
+    required: ["filename", "page"],
+    additionalProperties: false,
+  },
+  confidence: { type: "string", enum: ["High", "Medium", "Low"] },
+};
+
+const requestedTypes = (counts: Record<QuestionType, number>) =>
+  (Object.keys(QUESTION_TYPES) as QuestionType[]).filter((type) => counts[type] > 0);
+
+/** Numbered prompt sections for the requested types */
+export function describeRequest(counts: Record<QuestionType, number>): string {
+  return requestedTypes(counts)
+    .map((type, i) => {
+      const spec = QUESTION_TYPES[type];
+      const rules = [...spec.instructions, "Add citation (file name + page or slide number)"];
+      return `${i + 1}) ${counts[type]} ${spec.title}\n${rules.map((r) => `   - ${r}`).join("\n")}`;
+    })
+    .join("\n\n");
+}
+
+/** The tool the model is made to call, with an array of questions for each requested type */
+export function questionsTool(counts: Record<QuestionType, number>) {
+  const types = requestedTypes(counts);
+  return {
+    type: "function",
+    function: {
+      name: "save_questions",
+      description: "Return the study questions written from the notes.",
+      // Arguments must match the schema, so attempts aren't spent on malformed JSON
+      strict: true,
+      parameters: {
+        type: "object",
+        properties: Object.fromEntries(
+          types.map((type) => {
+            const spec = QUESTION_TYPES[type];
+            return [
+              spec.key,
+              {
+                type: "array",
+                description: `${counts[type]} ${spec.title}`,
+                items: {
+                  type: "object",
+                  properties: { ...spec.properties, ...SOURCE_PROPERTIES },
+                  required: [...spec.required, "quotedText", "quotedLines", "citation", "confidence"],
+                  additionalProperties: false,
+                },
+              },
+            ];
+          }),
+        ),
+        required: types.map((type) => QUESTION_TYPES[type].key),
+        additionalProperties: false,
+      },
+    },
+  };
+}
+
+const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+const flatten = (value: string) => value.replace(/\s+/g, " ").trim();
+
+const distinct = (values: string[]) => new Set(values.map((v) => v.toLowerCase())).size === values.length;
+
+/**
+ * Cut a sentence around its blanks, in order: the text between the blanks
+ * (one more part than blanks) and each blank as written in the sentence.
+ * Null if a blank isn't in the sentence after the previous one.
+ */
+function cutBlanks(sentence: string, blanks: string[]): { parts: string[]; blanks: string[] } | null {
+  const lower = sentence.toLowerCase();
+  const parts: string[] = [];
+  const found: string[] = [];
+  let cursor = 0;
+  for (const blank of blanks) {
+    const at = lower.indexOf(blank.toLowerCase(), cursor);
+    if (at === -1) return null;
+    parts.push(sentence.slice(cursor, at));
+    found.push(sentence.slice(at, at + blank.length));
+    cursor = at + blank.length;
+  }
+  parts.push(sentence.slice(cursor));
+  return { parts, blanks: found };
+}
+
+/** A generated question ready to save, or why it can't be asked */
+export type PreparedQuestion = { ok: true; question: GeneratedQuestion } | { ok: false; problem: string };
+
+const rejected = (problem: string): PreparedQuestion => ({ ok: false, problem });
+
+/** Check the fields a question of the type needs, returning it cleaned up */
+function checkFields(type: QuestionType, q: GeneratedQuestion, sources: ContextSource[]): PreparedQuestion {
+  switch (type) {
+    case "mcq": {
+      const options = Array.isArray(q.options)
+        ? q.options
+            .map((o) => ({ label: text(o?.label).toUpperCase(), text: text(o?.text) }))
+            .sort((a, b) => a.label.localeCompare(b.label))
+        : [];
+      if (!text(q.question)) return rejected("the question is empty");
+      if (options.length !== 4 || options.map((o) => o.label).join("") !== LABELS.join("")) {
+        return rejected("it needs exactly 4 options labelled A, B, C and D");
+      }
+      if (options.some((o) => !o.text) || !distinct(options.map((o) => o.text))) {
+        return rejected("its 4 options must all be different");
+      }
+      const correctAnswer = text(q.correctAnswer).toUpperCase();
+      if (!LABELS.includes(correctAnswer)) return rejected("its correctAnswer isn't one of the option labels");
+      return { ok: true, question: { ...q, question: text(q.question), options, correctAnswer } };
+    }
+
+    case "short_answer": {
+      if (!text(q.question) || !text(q.modelAnswer)) return rejected("it needs a question and a model answer");
+      return { ok: true, question: { ...q, question: text(q.question), modelAnswer: text(q.modelAnswer) } };
+    }
+
+    case "true_false": {
+      const answer = q.answer === true || q.answer === "true" ? true : q.answer === false || q.answer === "false" ? false : null;
+      if (!text(q.question)) return rejected("the statement is empty");
+      if (answer === null) return rejected("its answer must be true or false");
+      return { ok: true, question: { ...q, question: text(q.question), answer } };
+    }
+
+    case "cloze": {
+      const sentence = flatten(text(q.sentence));
+      const blanks = Array.isArray(q.blanks) ? q.blanks.map(text).filter(Boolean) : [];
+      if (!sentence || blanks.length === 0) return rejected("it needs a sentence and at least one blank");
+      if (!sources.some((s) => flatten(s.chunk.content).includes(sentence))) {
+        return rejected("the sentence isn't copied exactly from the notes");
+      }
+      const cut = cutBlanks(sentence, blanks);
+      if (!cut) return rejected("its blanks aren't words of the sentence, in order");
+      return {
+        ok: true,
+        question: { ...q, sentence, ...cut, question: cut.parts.join("_____"), quotedText: sentence },
+      };
+    }
+
+    case "matching": {
+      const pairs = Array.isArray(q.pairs)
+        ? q.pairs
+            .map((p) => ({ term: text(p?.term), definition: text(p?.definition) }))
+            .filter((p) => p.term && p.definition)
+        : [];
+      if (pairs.length < 2) return rejected("it needs at least 2 term–definition pairs");
+      if (!distinct(pairs.map((p) => p.term)) || !distinct(pairs.map((p) => p.definition))) {
+        return rejected("its terms and definitions must all be different");
+      }
+      return { ok: true, question: { ...q, question: text(q.question) || "Match each term to its definition", pairs } };
+    }
+
+    case "ordering": {
+      const items = Array.isArray(q.items) ? q.items.map(text).filter(Boolean) : [];
+      if (items.length < 3) return rejected("it needs at least 3 items");
+      if (!distinct(items)) return rejected("its items must all be different");
+      return { ok: true, question: { ...q, question: text(q.question) || "Put these in order", items } };
+    }
+  }
+}
+
+/**
+ * Check a generated question's fields and verify its quote against the
+ * notes, correcting its citation. A question whose quote isn't found must
+ * cite one of the files it was shown. Cloze sentences must appear word for
+ * word in the notes, so every blank has a single right answer. Rejections say
+ * what's wrong so the model can be asked to fix it.
+ */
+export function prepareQuestion(
+  type: QuestionType,
+  q: GeneratedQuestion,
+  sources: ContextSource[],
+): PreparedQuestion {
+  if (!q || typeof q !== "object") return rejected("it isn't a question object");
+
+  const checked = checkFields(type, q, sources);
+  if (!checked.ok) return checked;
+
+  const question = verifyQuestion(checked.question, sources);
+  if (question.verified) return { ok: true, question };
+
+  // An unverified question must still cite a file it was shown
+  const filename = text(question.citation?.filename);
+  if (!filename) return rejected("it has no citation");
+  const cited = sources.find((s) => s.filename.toLowerCase() === filename.toLowerCase());
+  if (!cited) return rejected(`its citation names ${filename}, which isn't one of the notes`);
+  return {
+    ok: true,
+    question: {
+      ...question,
+      citation: { ...question.citation, document_id: cited.chunk.document_id, filename: cited.filename },
+    },
+  };
+}
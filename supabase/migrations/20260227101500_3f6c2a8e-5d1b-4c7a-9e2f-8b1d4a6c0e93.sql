@@ -0,0 +1,39 @@
+
+-- Vector embeddings for retrieval (gte-small, 384 dimensions)
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+ALTER TABLE public.chunks ADD COLUMN embedding extensions.vector(384);
+
+CREATE INDEX chunks_embedding_idx ON public.chunks
+  USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Top-k chunks of a subject by cosine similarity to the query embedding
+CREATE OR REPLACE FUNCTION public.match_chunks(
+  query_embedding extensions.vector(384),
+  match_subject_id UUID,
+  match_count INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  content TEXT,
+  page_number INTEGER,
+  chunk_index INTEGER,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.document_id,
+    c.content,
+    c.page_number,
+    c.chunk_index,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM public.chunks c
+  WHERE c.subject_id = match_subject_id
+    AND c.embedding IS NOT NULL
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
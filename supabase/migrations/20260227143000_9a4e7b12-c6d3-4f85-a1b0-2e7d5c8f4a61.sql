@@ -0,0 +1,76 @@
+
+-- Full-text search over chunk content, fused with vector similarity
+ALTER TABLE public.chunks
+  ADD COLUMN fts tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+CREATE INDEX chunks_fts_idx ON public.chunks USING gin (fts);
+
+-- Hybrid search: reciprocal rank fusion of keyword and semantic rankings.
+-- Each side contributes 1 / (rrf_k + rank); chunks found by only one side
+-- still score, so exact terms the embedding misses can surface.
+CREATE OR REPLACE FUNCTION public.hybrid_search_chunks(
+  query_text TEXT,
+  query_embedding extensions.vector(384),
+  match_subject_id UUID,
+  match_count INTEGER DEFAULT 8,
+  full_text_weight DOUBLE PRECISION DEFAULT 1,
+  semantic_weight DOUBLE PRECISION DEFAULT 1,
+  rrf_k INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  content TEXT,
+  page_number INTEGER,
+  chunk_index INTEGER,
+  similarity DOUBLE PRECISION,
+  keyword_score REAL,
+  semantic_rank BIGINT,
+  keyword_rank BIGINT,
+  score DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+SET search_path = public, extensions
+AS $$
+  WITH full_text AS (
+    SELECT
+      c.id,
+      ts_rank_cd(c.fts, websearch_to_tsquery('english', query_text)) AS keyword_score,
+      row_number() OVER (
+        ORDER BY ts_rank_cd(c.fts, websearch_to_tsquery('english', query_text)) DESC
+      ) AS rank_ix
+    FROM public.chunks c
+    WHERE c.subject_id = match_subject_id
+      AND c.fts @@ websearch_to_tsquery('english', query_text)
+    ORDER BY rank_ix
+    LIMIT match_count * 2
+  ),
+  semantic AS (
+    SELECT
+      c.id,
+      1 - (c.embedding <=> query_embedding) AS similarity,
+      row_number() OVER (ORDER BY c.embedding <=> query_embedding) AS rank_ix
+    FROM public.chunks c
+    WHERE c.subject_id = match_subject_id
+      AND c.embedding IS NOT NULL
+    ORDER BY rank_ix
+    LIMIT match_count * 2
+  )
+  SELECT
+    c.id,
+    c.document_id,
+    c.content,
+    c.page_number,
+    c.chunk_index,
+    semantic.similarity,
+    full_text.keyword_score,
+    semantic.rank_ix AS semantic_rank,
+    full_text.rank_ix AS keyword_rank,
+    COALESCE(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight
+      + COALESCE(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight AS score
+  FROM full_text
+  FULL OUTER JOIN semantic ON full_text.id = semantic.id
+  JOIN public.chunks c ON c.id = COALESCE(full_text.id, semantic.id)
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
@@ -0,0 +1,65 @@
+
+-- Heading path of the section each chunk belongs to, e.g. "Chapter 3 > Enzymes > Kinetics"
+ALTER TABLE public.chunks ADD COLUMN heading_path TEXT;
+
+-- hybrid_search_chunks now returns only ids and scores; callers load the chunk
+-- columns they need, so adding a column no longer means redefining the function
+DROP FUNCTION public.hybrid_search_chunks(TEXT, extensions.vector, UUID, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER);
+
+CREATE FUNCTION public.hybrid_search_chunks(
+  query_text TEXT,
+  query_embedding extensions.vector(384),
+  match_subject_id UUID,
+  match_count INTEGER DEFAULT 8,
+  full_text_weight DOUBLE PRECISION DEFAULT 1,
+  semantic_weight DOUBLE PRECISION DEFAULT 1,
+  rrf_k INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  similarity DOUBLE PRECISION,
+  keyword_score REAL,
+  semantic_rank BIGINT,
+  keyword_rank BIGINT,
+  score DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+SET search_path = public, extensions
+AS $$
+  WITH full_text AS (
+    SELECT
+      c.id,
+      ts_rank_cd(c.fts, websearch_to_tsquery('english', query_text)) AS keyword_score,
+      row_number() OVER (
+        ORDER BY ts_rank_cd(c.fts, websearch_to_tsquery('english', query_text)) DESC
+      ) AS rank_ix
+    FROM public.chunks c
+    WHERE c.subject_id = match_subject_id
+      AND c.fts @@ websearch_to_tsquery('english', query_text)
+    ORDER BY rank_ix
+    LIMIT match_count * 2
+  ),
+  semantic AS (
+    SELECT
+      c.id,
+      1 - (c.embedding <=> query_embedding) AS similarity,
+      row_number() OVER (ORDER BY c.embedding <=> query_embedding) AS rank_ix
+    FROM public.chunks c
+    WHERE c.subject_id = match_subject_id
+      AND c.embedding IS NOT NULL
+    ORDER BY rank_ix
+    LIMIT match_count * 2
+  )
+  SELECT
+    COALESCE(full_text.id, semantic.id) AS id,
+    semantic.similarity,
+    full_text.keyword_score,
+    semantic.rank_ix AS semantic_rank,
+    full_text.rank_ix AS keyword_rank,
+    COALESCE(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight
+      + COALESCE(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight AS score
+  FROM full_text
+  FULL OUTER JOIN semantic ON full_text.id = semantic.id
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
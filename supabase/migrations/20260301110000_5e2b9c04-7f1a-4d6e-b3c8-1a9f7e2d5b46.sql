@@ -0,0 +1,4 @@
+
+-- Mean OCR word confidence (0-1) for chunks recognised from images; NULL for native text
+ALTER TABLE public.chunks
+  ADD COLUMN ocr_confidence REAL CHECK (ocr_confidence >= 0 AND ocr_confidence <= 1);
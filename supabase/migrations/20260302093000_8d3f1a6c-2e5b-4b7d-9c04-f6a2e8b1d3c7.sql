@@ -0,0 +1,39 @@
+
+-- Processing lifecycle for documents: queued -> processing -> ready | failed
+ALTER TABLE public.documents
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'processing', 'failed', 'ready')),
+  ADD COLUMN error TEXT,
+  ADD COLUMN chunk_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Backfill documents processed before status tracking existed
+UPDATE public.documents d
+SET
+  chunk_count = counts.n,
+  status = CASE WHEN counts.n > 0 THEN 'ready' ELSE 'failed' END,
+  error = CASE WHEN counts.n > 0 THEN NULL ELSE 'No text was extracted from this document' END
+FROM (
+  SELECT doc.id, count(c.id)::INTEGER AS n
+  FROM public.documents doc
+  LEFT JOIN public.chunks c ON c.document_id = doc.id
+  GROUP BY doc.id
+) counts
+WHERE counts.id = d.id;
+
+CREATE OR REPLACE FUNCTION public.set_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER documents_set_updated_at
+  BEFORE UPDATE ON public.documents
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Stream status changes to the sidebar
+ALTER PUBLICATION supabase_realtime ADD TABLE public.documents;
@@ -0,0 +1,22 @@
+
+-- Keep subjects.document_count in step with the documents table, whichever
+-- client inserts or deletes documents
+CREATE OR REPLACE FUNCTION public.sync_subject_document_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.subjects s
+  SET document_count = (SELECT count(*) FROM public.documents d WHERE d.subject_id = s.id)
+  WHERE s.id = COALESCE(NEW.subject_id, OLD.subject_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER documents_sync_subject_count
+  AFTER INSERT OR DELETE ON public.documents
+  FOR EACH ROW EXECUTE FUNCTION public.sync_subject_document_count();
+
+-- Correct any counts that drifted while the client maintained them
+UPDATE public.subjects s
+SET document_count = (SELECT count(*) FROM public.documents d WHERE d.subject_id = s.id);
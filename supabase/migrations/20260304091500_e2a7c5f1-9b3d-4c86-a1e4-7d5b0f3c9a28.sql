@@ -0,0 +1,6 @@
+
+-- Confidence is scored server-side from retrieval and verification signals:
+-- keep the 0-1 score and the factors behind it alongside the label
+ALTER TABLE public.chat_messages
+  ADD COLUMN confidence_score REAL CHECK (confidence_score >= 0 AND confidence_score <= 1),
+  ADD COLUMN confidence_factors JSONB;
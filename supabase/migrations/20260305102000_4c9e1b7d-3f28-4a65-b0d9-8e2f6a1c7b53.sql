@@ -0,0 +1,27 @@
+
+-- Line range of each chunk within its document's extracted text (1-based,
+-- pages in order), so "L12-L15" means the same lines wherever it is cited
+ALTER TABLE public.chunks
+  ADD COLUMN line_start INTEGER,
+  ADD COLUMN line_end INTEGER;
+
+-- Backfill existing chunks by laying them end to end in chunk order. Blank
+-- lines dropped between chunks aren't recoverable, so these are approximate
+-- until the document is reprocessed.
+WITH numbered AS (
+  SELECT
+    id,
+    array_length(string_to_array(content, E'\n'), 1) AS line_count,
+    SUM(array_length(string_to_array(content, E'\n'), 1)) OVER (
+      PARTITION BY document_id
+      ORDER BY chunk_index
+      ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW
+    ) AS running_total
+  FROM public.chunks
+)
+UPDATE public.chunks c
+SET
+  line_start = n.running_total - n.line_count + 1,
+  line_end = n.running_total
+FROM numbered n
+WHERE c.id = n.id;
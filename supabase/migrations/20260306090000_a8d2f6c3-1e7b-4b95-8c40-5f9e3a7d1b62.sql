@@ -0,0 +1,52 @@
+
+-- Subjects belong to a Supabase Auth user. Rows created before accounts
+-- existed keep their anonymous session_id and no owner until claimed.
+ALTER TABLE public.subjects
+  ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  ALTER COLUMN session_id DROP NOT NULL;
+
+CREATE INDEX subjects_owner_id_idx ON public.subjects (owner_id);
+CREATE INDEX subjects_session_id_idx ON public.subjects (session_id) WHERE owner_id IS NULL;
+
+-- How many unclaimed subjects an anonymous session left behind, so the app
+-- can offer to claim them without being able to read them first
+CREATE OR REPLACE FUNCTION public.count_session_data(p_session_id TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER
+  FROM public.subjects
+  WHERE session_id = p_session_id AND owner_id IS NULL;
+$$;
+
+-- Move an anonymous session's subjects (and with them their documents,
+-- chunks and chat history) into the signed-in user's account
+CREATE OR REPLACE FUNCTION public.claim_session_data(p_session_id TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimed INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to claim session data' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.subjects
+  SET owner_id = auth.uid()
+  WHERE session_id = p_session_id AND owner_id IS NULL;
+  GET DIAGNOSTICS claimed = ROW_COUNT;
+
+  RETURN claimed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.count_session_data(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.claim_session_data(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.count_session_data(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_session_data(TEXT) TO authenticated;
@@ -0,0 +1,105 @@
+
+-- Replace the "Allow all" policies from before accounts existed: every row
+-- now belongs to whoever owns its subject, and anonymous clients see nothing.
+DROP POLICY "Allow all subjects" ON public.subjects;
+DROP POLICY "Allow all documents" ON public.documents;
+DROP POLICY "Allow all chunks" ON public.chunks;
+DROP POLICY "Allow all chat_messages" ON public.chat_messages;
+
+DROP POLICY "Allow all uploads" ON storage.objects;
+DROP POLICY "Allow all reads" ON storage.objects;
+DROP POLICY "Allow all deletes" ON storage.objects;
+
+-- Whether the signed-in user owns a subject. SECURITY DEFINER so policies on
+-- child tables don't re-run the subjects policy for every row they check.
+CREATE OR REPLACE FUNCTION public.owns_subject(p_subject_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.subjects
+    WHERE id = p_subject_id AND owner_id = auth.uid()
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.owns_subject(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.owns_subject(UUID) TO authenticated;
+
+-- Subjects: owned directly
+CREATE POLICY "Owners read subjects" ON public.subjects
+  FOR SELECT TO authenticated USING (owner_id = auth.uid());
+CREATE POLICY "Owners create subjects" ON public.subjects
+  FOR INSERT TO authenticated WITH CHECK (owner_id = auth.uid());
+CREATE POLICY "Owners update subjects" ON public.subjects
+  FOR UPDATE TO authenticated USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+CREATE POLICY "Owners delete subjects" ON public.subjects
+  FOR DELETE TO authenticated USING (owner_id = auth.uid());
+
+-- Documents and chat history: owned through their subject
+CREATE POLICY "Owners read documents" ON public.documents
+  FOR SELECT TO authenticated USING (public.owns_subject(subject_id));
+CREATE POLICY "Owners create documents" ON public.documents
+  FOR INSERT TO authenticated WITH CHECK (public.owns_subject(subject_id));
+CREATE POLICY "Owners update documents" ON public.documents
+  FOR UPDATE TO authenticated USING (public.owns_subject(subject_id)) WITH CHECK (public.owns_subject(subject_id));
+CREATE POLICY "Owners delete documents" ON public.documents
+  FOR DELETE TO authenticated USING (public.owns_subject(subject_id));
+
+CREATE POLICY "Owners read chat_messages" ON public.chat_messages
+  FOR SELECT TO authenticated USING (public.owns_subject(subject_id));
+CREATE POLICY "Owners create chat_messages" ON public.chat_messages
+  FOR INSERT TO authenticated WITH CHECK (public.owns_subject(subject_id));
+CREATE POLICY "Owners delete chat_messages" ON public.chat_messages
+  FOR DELETE TO authenticated USING (public.owns_subject(subject_id));
+
+-- Chunks: owned through their subject, and written chunks must also belong
+-- to a document of that subject, so one user's chunks can't be attached to
+-- another user's document
+CREATE POLICY "Owners read chunks" ON public.chunks
+  FOR SELECT TO authenticated USING (public.owns_subject(subject_id));
+CREATE POLICY "Owners create chunks" ON public.chunks
+  FOR INSERT TO authenticated WITH CHECK (
+    public.owns_subject(subject_id)
+    AND EXISTS (
+      SELECT 1 FROM public.documents d
+      WHERE d.id = document_id AND d.subject_id = chunks.subject_id
+    )
+  );
+CREATE POLICY "Owners delete chunks" ON public.chunks
+  FOR DELETE TO authenticated USING (public.owns_subject(subject_id));
+
+-- Storage: uploads go under the uploader's user ID ({user_id}/{subject_id}/...).
+-- Files uploaded before accounts sit under the old session ID instead, so
+-- those stay reachable through a documents row the user owns.
+CREATE POLICY "Owners upload documents" ON storage.objects
+  FOR INSERT TO authenticated WITH CHECK (
+    bucket_id = 'documents'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+CREATE POLICY "Owners read documents" ON storage.objects
+  FOR SELECT TO authenticated USING (
+    bucket_id = 'documents'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::TEXT
+      OR EXISTS (
+        SELECT 1 FROM public.documents d
+        WHERE d.storage_path = objects.name AND public.owns_subject(d.subject_id)
+      )
+    )
+  );
+CREATE POLICY "Owners delete documents" ON storage.objects
+  FOR DELETE TO authenticated USING (
+    bucket_id = 'documents'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::TEXT
+      OR EXISTS (
+        SELECT 1 FROM public.documents d
+        WHERE d.storage_path = objects.name AND public.owns_subject(d.subject_id)
+      )
+    )
+  );
+
+CREATE INDEX documents_storage_path_idx ON public.documents (storage_path);
@@ -0,0 +1,223 @@
+
+-- Per-user limits, enforced in the database so a direct insert can't bypass
+-- them. Every user gets a row with the defaults; raise a user's limits by
+-- updating their row.
+CREATE TABLE public.user_quotas (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  max_subjects INTEGER NOT NULL DEFAULT 3,
+  max_documents INTEGER NOT NULL DEFAULT 50,
+  max_file_bytes BIGINT NOT NULL DEFAULT 20971520,
+  max_total_bytes BIGINT NOT NULL DEFAULT 209715200,
+  max_chunks INTEGER NOT NULL DEFAULT 10000,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_quotas ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their limits but not change them
+CREATE POLICY "Users read their quota" ON public.user_quotas
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+CREATE TRIGGER user_quotas_set_updated_at
+  BEFORE UPDATE ON public.user_quotas
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+CREATE OR REPLACE FUNCTION public.create_user_quota()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_quotas (user_id) VALUES (NEW.id) ON CONFLICT (user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created_quota
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.create_user_quota();
+
+INSERT INTO public.user_quotas (user_id)
+SELECT id FROM auth.users
+ON CONFLICT (user_id) DO NOTHING;
+
+-- A user's quota row, locked so that concurrent inserts by the same user are
+-- checked one at a time and can't both squeeze under a limit
+CREATE OR REPLACE FUNCTION public.lock_user_quota(p_user_id UUID)
+RETURNS public.user_quotas
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quota public.user_quotas;
+BEGIN
+  INSERT INTO public.user_quotas (user_id) VALUES (p_user_id) ON CONFLICT (user_id) DO NOTHING;
+  SELECT * INTO quota FROM public.user_quotas WHERE user_id = p_user_id FOR UPDATE;
+  RETURN quota;
+END;
+$$;
+
+-- Quota violations raise their own SQLSTATEs so the app can tell them apart
+-- from other failures and show the message as is:
+--   AMN01 subject limit, AMN02 document limit, AMN03 file too large,
+--   AMN04 storage limit, AMN05 chunk limit
+
+-- Subjects: checked on create, and when claiming moves subjects to an owner
+CREATE OR REPLACE FUNCTION public.enforce_subject_quota()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quota public.user_quotas;
+  owned INTEGER;
+BEGIN
+  IF NEW.owner_id IS NULL
+    OR (TG_OP = 'UPDATE' AND NEW.owner_id IS NOT DISTINCT FROM OLD.owner_id) THEN
+    RETURN NEW;
+  END IF;
+
+  quota := public.lock_user_quota(NEW.owner_id);
+  SELECT count(*) INTO owned FROM public.subjects WHERE owner_id = NEW.owner_id;
+
+  IF owned >= quota.max_subjects THEN
+    RAISE EXCEPTION 'You can have at most % subjects. Delete one to make room.', quota.max_subjects
+      USING ERRCODE = 'AMN01';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER subjects_enforce_quota
+  BEFORE INSERT OR UPDATE OF owner_id ON public.subjects
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_subject_quota();
+
+-- Documents: file count, size of this file, and total storage
+CREATE OR REPLACE FUNCTION public.enforce_document_quota(p_user_id UUID, p_file_size BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quota public.user_quotas;
+  doc_count INTEGER;
+  used_bytes BIGINT;
+BEGIN
+  quota := public.lock_user_quota(p_user_id);
+
+  IF p_file_size > quota.max_file_bytes THEN
+    RAISE EXCEPTION 'Files can be at most % MB.', round(quota.max_file_bytes / 1048576.0)
+      USING ERRCODE = 'AMN03';
+  END IF;
+
+  SELECT count(*), COALESCE(sum(d.file_size), 0) INTO doc_count, used_bytes
+  FROM public.documents d
+  JOIN public.subjects s ON s.id = d.subject_id
+  WHERE s.owner_id = p_user_id;
+
+  IF doc_count >= quota.max_documents THEN
+    RAISE EXCEPTION 'You can have at most % files. Delete one to make room.', quota.max_documents
+      USING ERRCODE = 'AMN02';
+  END IF;
+
+  IF used_bytes + p_file_size > quota.max_total_bytes THEN
+    RAISE EXCEPTION 'This file would take you over your % MB storage limit (% MB used).',
+      round(quota.max_total_bytes / 1048576.0), round(used_bytes / 1048576.0, 1)
+      USING ERRCODE = 'AMN04';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_document_quota()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  subject_owner UUID;
+  stored_size BIGINT;
+BEGIN
+  -- Count the uploaded object's real size, not the one the client reported
+  SELECT (o.metadata->>'size')::BIGINT INTO stored_size
+  FROM storage.objects o
+  WHERE o.bucket_id = 'documents' AND o.name = NEW.storage_path;
+  NEW.file_size := COALESCE(stored_size, NEW.file_size);
+
+  SELECT owner_id INTO subject_owner FROM public.subjects WHERE id = NEW.subject_id;
+  IF subject_owner IS NOT NULL THEN
+    PERFORM public.enforce_document_quota(subject_owner, NEW.file_size);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER documents_enforce_quota
+  BEFORE INSERT ON public.documents
+  FOR EACH ROW EXECUTE FUNCTION public.check_document_quota();
+
+-- Chunks: checked once per insert statement, after the rows are in, since
+-- process-document inserts a whole document's chunks at once
+CREATE OR REPLACE FUNCTION public.check_chunk_quota()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  subject_owner UUID;
+  quota public.user_quotas;
+  total INTEGER;
+BEGIN
+  FOR subject_owner IN
+    SELECT DISTINCT s.owner_id
+    FROM inserted i
+    JOIN public.subjects s ON s.id = i.subject_id
+    WHERE s.owner_id IS NOT NULL
+  LOOP
+    quota := public.lock_user_quota(subject_owner);
+    SELECT count(*) INTO total
+    FROM public.chunks c
+    JOIN public.subjects s ON s.id = c.subject_id
+    WHERE s.owner_id = subject_owner;
+
+    IF total > quota.max_chunks THEN
+      RAISE EXCEPTION 'Your notes would exceed the limit of % indexed passages. Delete some files to make room.',
+        quota.max_chunks
+        USING ERRCODE = 'AMN05';
+    END IF;
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER chunks_enforce_quota
+  AFTER INSERT ON public.chunks
+  REFERENCING NEW TABLE AS inserted
+  FOR EACH STATEMENT EXECUTE FUNCTION public.check_chunk_quota();
+
+-- Checked by the app before uploading, so a file that won't fit is rejected
+-- before it reaches storage. The documents trigger still has the final say.
+CREATE OR REPLACE FUNCTION public.check_upload_quota(p_subject_id UUID, p_file_size BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.owns_subject(p_subject_id) THEN
+    RAISE EXCEPTION 'Subject not found' USING ERRCODE = '42501';
+  END IF;
+  PERFORM public.enforce_document_quota(auth.uid(), p_file_size);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_user_quota(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enforce_document_quota(UUID, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_upload_quota(UUID, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_upload_quota(UUID, BIGINT) TO authenticated;
@@ -0,0 +1,54 @@
+
+-- Every study run is saved as a set so quizzes survive a reload and earlier
+-- sets can be reopened
+CREATE TABLE public.study_sets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  -- The focus the set was generated for, if any
+  topic TEXT,
+  question_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX study_sets_subject_id_idx ON public.study_sets (subject_id, created_at DESC);
+
+-- One row per generated question. Fields every type shares are columns; the
+-- rest (options and answer, model answer, ...) are kept in payload as generated.
+CREATE TABLE public.study_questions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  study_set_id UUID NOT NULL REFERENCES public.study_sets(id) ON DELETE CASCADE,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('mcq', 'short_answer')),
+  question TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::JSONB,
+  citation JSONB,
+  quoted_text TEXT,
+  quoted_lines TEXT,
+  verified BOOLEAN,
+  confidence TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (study_set_id, position)
+);
+
+ALTER TABLE public.study_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.study_questions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners read study_sets" ON public.study_sets
+  FOR SELECT TO authenticated USING (public.owns_subject(subject_id));
+CREATE POLICY "Owners create study_sets" ON public.study_sets
+  FOR INSERT TO authenticated WITH CHECK (public.owns_subject(subject_id));
+CREATE POLICY "Owners delete study_sets" ON public.study_sets
+  FOR DELETE TO authenticated USING (public.owns_subject(subject_id));
+
+-- Questions must belong to a set of the same subject
+CREATE POLICY "Owners read study_questions" ON public.study_questions
+  FOR SELECT TO authenticated USING (public.owns_subject(subject_id));
+CREATE POLICY "Owners create study_questions" ON public.study_questions
+  FOR INSERT TO authenticated WITH CHECK (
+    public.owns_subject(subject_id)
+    AND EXISTS (
+      SELECT 1 FROM public.study_sets s
+      WHERE s.id = study_set_id AND s.subject_id = study_questions.subject_id
+    )
+  );
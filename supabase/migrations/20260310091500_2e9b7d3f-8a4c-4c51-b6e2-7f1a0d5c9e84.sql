@@ -0,0 +1,56 @@
+
+-- One row per answered question. Answers given in one sitting share a run_id,
+-- so retaking a set starts a new run and earlier scores are kept.
+CREATE TABLE public.quiz_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id UUID NOT NULL,
+  study_set_id UUID NOT NULL REFERENCES public.study_sets(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.study_questions(id) ON DELETE CASCADE,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  answer TEXT NOT NULL,
+  -- Null while an answer can't be scored automatically
+  is_correct BOOLEAN,
+  time_taken_ms INTEGER CHECK (time_taken_ms >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (run_id, question_id)
+);
+
+CREATE INDEX quiz_attempts_study_set_id_idx ON public.quiz_attempts (study_set_id, created_at);
+
+-- Score multiple-choice answers against the stored answer key rather than
+-- trusting the client
+CREATE OR REPLACE FUNCTION public.score_quiz_attempt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  q public.study_questions;
+BEGIN
+  SELECT * INTO q FROM public.study_questions WHERE id = NEW.question_id;
+  IF q.type = 'mcq' THEN
+    NEW.is_correct := NEW.answer = q.payload->>'correctAnswer';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER quiz_attempts_score
+  BEFORE INSERT ON public.quiz_attempts
+  FOR EACH ROW EXECUTE FUNCTION public.score_quiz_attempt();
+
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners read quiz_attempts" ON public.quiz_attempts
+  FOR SELECT TO authenticated USING (public.owns_subject(subject_id));
+-- Answers must be to a question of the given set, in the same subject
+CREATE POLICY "Owners create quiz_attempts" ON public.quiz_attempts
+  FOR INSERT TO authenticated WITH CHECK (
+    public.owns_subject(subject_id)
+    AND EXISTS (
+      SELECT 1 FROM public.study_questions q
+      WHERE q.id = question_id
+        AND q.study_set_id = quiz_attempts.study_set_id
+        AND q.subject_id = quiz_attempts.subject_id
+    )
+  );
@@ -0,0 +1,39 @@
+
+-- Flashcards per subject, scheduled for review with SM-2. Cards are generated
+-- from the notes or made from a chat answer or short-answer question.
+CREATE TABLE public.flashcards (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  front TEXT NOT NULL,
+  back TEXT NOT NULL,
+  citation JSONB,
+  quoted_text TEXT,
+  quoted_lines TEXT,
+  verified BOOLEAN,
+  source TEXT NOT NULL DEFAULT 'generated' CHECK (source IN ('generated', 'chat', 'short_answer')),
+  -- SM-2 schedule; a new card is due straight away
+  ease REAL NOT NULL DEFAULT 2.5 CHECK (ease >= 1.3),
+  interval_days INTEGER NOT NULL DEFAULT 0 CHECK (interval_days >= 0),
+  repetitions INTEGER NOT NULL DEFAULT 0 CHECK (repetitions >= 0),
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX flashcards_subject_due_idx ON public.flashcards (subject_id, due_at);
+
+CREATE TRIGGER flashcards_set_updated_at
+  BEFORE UPDATE ON public.flashcards
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.flashcards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners read flashcards" ON public.flashcards
+  FOR SELECT TO authenticated USING (public.owns_subject(subject_id));
+CREATE POLICY "Owners create flashcards" ON public.flashcards
+  FOR INSERT TO authenticated WITH CHECK (public.owns_subject(subject_id));
+CREATE POLICY "Owners update flashcards" ON public.flashcards
+  FOR UPDATE TO authenticated USING (public.owns_subject(subject_id)) WITH CHECK (public.owns_subject(subject_id));
+CREATE POLICY "Owners delete flashcards" ON public.flashcards
+  FOR DELETE TO authenticated USING (public.owns_subject(subject_id));
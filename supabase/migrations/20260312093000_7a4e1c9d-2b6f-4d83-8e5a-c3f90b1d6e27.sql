@@ -0,0 +1,4 @@
+
+-- AI grade of a short-answer response: score, feedback, missed key points and
+-- evidence quotes from the notes. Written by the grade-answer function.
+ALTER TABLE public.quiz_attempts ADD COLUMN grade JSONB;
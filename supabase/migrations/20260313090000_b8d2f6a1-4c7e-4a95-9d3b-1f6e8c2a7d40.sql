@@ -0,0 +1,71 @@
+
+-- Options a study set was generated with. Sets from before these options
+-- existed leave them null.
+ALTER TABLE public.study_sets
+  ADD COLUMN difficulty TEXT CHECK (difficulty IN ('easy', 'medium', 'hard', 'mixed')),
+  -- Documents the questions were drawn from; null means the whole subject
+  ADD COLUMN document_ids UUID[];
+
+-- hybrid_search_chunks can be limited to some of the subject's documents
+DROP FUNCTION public.hybrid_search_chunks(TEXT, extensions.vector, UUID, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER);
+
+CREATE FUNCTION public.hybrid_search_chunks(
+  query_text TEXT,
+  query_embedding extensions.vector(384),
+  match_subject_id UUID,
+  match_count INTEGER DEFAULT 8,
+  full_text_weight DOUBLE PRECISION DEFAULT 1,
+  semantic_weight DOUBLE PRECISION DEFAULT 1,
+  rrf_k INTEGER DEFAULT 50,
+  match_document_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  similarity DOUBLE PRECISION,
+  keyword_score REAL,
+  semantic_rank BIGINT,
+  keyword_rank BIGINT,
+  score DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+SET search_path = public, extensions
+AS $$
+  WITH full_text AS (
+    SELECT
+      c.id,
+      ts_rank_cd(c.fts, websearch_to_tsquery('english', query_text)) AS keyword_score,
+      row_number() OVER (
+        ORDER BY ts_rank_cd(c.fts, websearch_to_tsquery('english', query_text)) DESC
+      ) AS rank_ix
+    FROM public.chunks c
+    WHERE c.subject_id = match_subject_id
+      AND (match_document_ids IS NULL OR c.document_id = ANY (match_document_ids))
+      AND c.fts @@ websearch_to_tsquery('english', query_text)
+    ORDER BY rank_ix
+    LIMIT match_count * 2
+  ),
+  semantic AS (
+    SELECT
+      c.id,
+      1 - (c.embedding <=> query_embedding) AS similarity,
+      row_number() OVER (ORDER BY c.embedding <=> query_embedding) AS rank_ix
+    FROM public.chunks c
+    WHERE c.subject_id = match_subject_id
+      AND (match_document_ids IS NULL OR c.document_id = ANY (match_document_ids))
+      AND c.embedding IS NOT NULL
+    ORDER BY rank_ix
+    LIMIT match_count * 2
+  )
+  SELECT
+    COALESCE(full_text.id, semantic.id) AS id,
+    semantic.similarity,
+    full_text.keyword_score,
+    semantic.rank_ix AS semantic_rank,
+    full_text.rank_ix AS keyword_rank,
+    COALESCE(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight
+      + COALESCE(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight AS score
+  FROM full_text
+  FULL OUTER JOIN semantic ON full_text.id = semantic.id
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
@@ -0,0 +1,69 @@
+
+-- True/false, cloze, matching and ordering questions. Their answers are
+-- recorded as text like multiple choice:
+--   true_false  'true' or 'false'
+--   cloze       JSON array of the words filled into each blank, in order
+--   matching    JSON array of the definition picked for each term, in term order
+--   ordering    JSON array of the items in the order given
+ALTER TABLE public.study_questions DROP CONSTRAINT study_questions_type_check;
+ALTER TABLE public.study_questions ADD CONSTRAINT study_questions_type_check
+  CHECK (type IN ('mcq', 'short_answer', 'true_false', 'cloze', 'matching', 'ordering'));
+
+-- Typed answers match regardless of case and spacing
+CREATE OR REPLACE FUNCTION public.normalize_answer(answer TEXT)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT lower(regexp_replace(btrim(answer), '\s+', ' ', 'g'));
+$$;
+
+-- Whether two JSON arrays of answers match element by element
+CREATE OR REPLACE FUNCTION public.answers_match(given JSONB, expected JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(given) IS DISTINCT FROM 'array' OR jsonb_typeof(expected) IS DISTINCT FROM 'array' THEN false
+    WHEN jsonb_array_length(given) <> jsonb_array_length(expected) THEN false
+    ELSE NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements_text(expected) WITH ORDINALITY AS e(value, i)
+      LEFT JOIN jsonb_array_elements_text(given) WITH ORDINALITY AS g(value, i) USING (i)
+      WHERE normalize_answer(g.value) IS DISTINCT FROM normalize_answer(e.value)
+    )
+  END;
+$$;
+
+-- Score every automatically gradable type against the stored answer key
+CREATE OR REPLACE FUNCTION public.score_quiz_attempt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  q public.study_questions;
+BEGIN
+  SELECT * INTO q FROM public.study_questions WHERE id = NEW.question_id;
+  CASE q.type
+    WHEN 'mcq' THEN
+      NEW.is_correct := NEW.answer = q.payload->>'correctAnswer';
+    WHEN 'true_false' THEN
+      NEW.is_correct := NEW.answer = q.payload->>'answer';
+    WHEN 'cloze' THEN
+      NEW.is_correct := answers_match(NEW.answer::JSONB, q.payload->'blanks');
+    WHEN 'matching' THEN
+      NEW.is_correct := answers_match(
+        NEW.answer::JSONB,
+        (SELECT jsonb_agg(p.pair->'definition' ORDER BY p.i)
+         FROM jsonb_array_elements(q.payload->'pairs') WITH ORDINALITY AS p(pair, i))
+      );
+    WHEN 'ordering' THEN
+      NEW.is_correct := answers_match(NEW.answer::JSONB, q.payload->'items');
+    ELSE
+      -- Short answers are graded by the grade-answer function
+      NULL;
+  END CASE;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,14 @@
+
+-- Chunks indexed before embeddings were stored have none, and semantic search
+-- skips them. Queue their documents to be processed again: queued documents
+-- nothing picks up are started by the app when their subject is opened.
+UPDATE public.documents d
+SET status = 'queued', error = NULL
+WHERE d.status IN ('ready', 'failed')
+  AND EXISTS (
+    SELECT 1 FROM public.chunks c
+    WHERE c.document_id = d.id AND c.embedding IS NULL
+  );
+
+-- Replaced by hybrid_search_chunks
+DROP FUNCTION IF EXISTS public.match_chunks(extensions.vector, UUID, INTEGER);
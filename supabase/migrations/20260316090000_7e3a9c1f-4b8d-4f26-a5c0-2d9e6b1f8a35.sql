@@ -0,0 +1,131 @@
+
+-- Quotas held only for documents rows, so files could be uploaded straight to
+-- storage past them, and a row inserted before its file was uploaded was
+-- counted at the size the client reported. Storage is now checked too, and a
+-- user's usage is every file they have stored, with or without a row.
+
+-- No file can be larger than the default per-file limit. Raise this along
+-- with any user's max_file_bytes above it.
+UPDATE storage.buckets SET file_size_limit = 20971520 WHERE id = 'documents';
+
+DROP FUNCTION public.enforce_document_quota(UUID, BIGINT);
+
+-- Checks adding a file of p_file_size at p_path. Usage counts each file once:
+-- the user's documents, at their recorded size, and anything else in their
+-- storage folder, at its stored size. p_path itself is left out, since it's
+-- the file being added.
+CREATE OR REPLACE FUNCTION public.enforce_document_quota(p_user_id UUID, p_file_size BIGINT, p_path TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quota public.user_quotas;
+  doc_count INTEGER;
+  used_bytes BIGINT;
+BEGIN
+  quota := public.lock_user_quota(p_user_id);
+
+  IF p_file_size > quota.max_file_bytes THEN
+    RAISE EXCEPTION 'Files can be at most % MB.', round(quota.max_file_bytes / 1048576.0)
+      USING ERRCODE = 'AMN03';
+  END IF;
+
+  SELECT count(*), COALESCE(sum(f.size), 0) INTO doc_count, used_bytes
+  FROM (
+    SELECT path, max(size) AS size
+    FROM (
+      SELECT d.storage_path AS path, d.file_size AS size
+      FROM public.documents d
+      JOIN public.subjects s ON s.id = d.subject_id
+      WHERE s.owner_id = p_user_id
+      UNION ALL
+      SELECT o.name, COALESCE((o.metadata->>'size')::BIGINT, 0)
+      FROM storage.objects o
+      WHERE o.bucket_id = 'documents' AND (storage.foldername(o.name))[1] = p_user_id::TEXT
+    ) files
+    WHERE path IS DISTINCT FROM p_path
+    GROUP BY path
+  ) f;
+
+  IF doc_count >= quota.max_documents THEN
+    RAISE EXCEPTION 'You can have at most % files. Delete one to make room.', quota.max_documents
+      USING ERRCODE = 'AMN02';
+  END IF;
+
+  IF used_bytes + p_file_size > quota.max_total_bytes THEN
+    RAISE EXCEPTION 'This file would take you over your % MB storage limit (% MB used).',
+      round(quota.max_total_bytes / 1048576.0), round(used_bytes / 1048576.0, 1)
+      USING ERRCODE = 'AMN04';
+  END IF;
+END;
+$$;
+
+-- A document is only added for a file that has been uploaded, and counts the
+-- stored file's real size, not the one the client reported
+CREATE OR REPLACE FUNCTION public.check_document_quota()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  subject_owner UUID;
+  stored_size BIGINT;
+BEGIN
+  SELECT COALESCE((o.metadata->>'size')::BIGINT, 0) INTO stored_size
+  FROM storage.objects o
+  WHERE o.bucket_id = 'documents' AND o.name = NEW.storage_path;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upload the file before adding it as a document.'
+      USING ERRCODE = '23503';
+  END IF;
+  NEW.file_size := stored_size;
+
+  SELECT owner_id INTO subject_owner FROM public.subjects WHERE id = NEW.subject_id;
+  IF subject_owner IS NOT NULL THEN
+    PERFORM public.enforce_document_quota(subject_owner, NEW.file_size, NEW.storage_path);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Called by the storage upload policy: the uploader's quota must fit the file
+CREATE OR REPLACE FUNCTION public.check_storage_quota(p_name TEXT, p_metadata JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enforce_document_quota(auth.uid(), COALESCE((p_metadata->>'size')::BIGINT, 0), p_name);
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_upload_quota(p_subject_id UUID, p_file_size BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.owns_subject(p_subject_id) THEN
+    RAISE EXCEPTION 'Subject not found' USING ERRCODE = '42501';
+  END IF;
+  PERFORM public.enforce_document_quota(auth.uid(), p_file_size);
+END;
+$$;
+
+DROP POLICY "Owners upload documents" ON storage.objects;
+CREATE POLICY "Owners upload documents" ON storage.objects
+  FOR INSERT TO authenticated WITH CHECK (
+    bucket_id = 'documents'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+    AND public.check_storage_quota(name, metadata)
+  );
+
+REVOKE EXECUTE ON FUNCTION public.enforce_document_quota(UUID, BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_storage_quota(TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_storage_quota(TEXT, JSONB) TO authenticated;
@@ -0,0 +1,48 @@
+-- Cloze, matching and ordering answers were cast straight to JSONB, so an
+-- answer that wasn't valid JSON rejected the whole attempt instead of being
+-- marked wrong.
+
+-- A JSON answer as JSONB, or NULL when it isn't valid JSON
+CREATE OR REPLACE FUNCTION public.answer_json(answer TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+BEGIN
+  RETURN answer::JSONB;
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN NULL;
+END;
+$$;
+
+-- answers_match treats a NULL answer as wrong
+CREATE OR REPLACE FUNCTION public.score_quiz_attempt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  q public.study_questions;
+BEGIN
+  SELECT * INTO q FROM public.study_questions WHERE id = NEW.question_id;
+  CASE q.type
+    WHEN 'mcq' THEN
+      NEW.is_correct := NEW.answer = q.payload->>'correctAnswer';
+    WHEN 'true_false' THEN
+      NEW.is_correct := NEW.answer = q.payload->>'answer';
+    WHEN 'cloze' THEN
+      NEW.is_correct := answers_match(answer_json(NEW.answer), q.payload->'blanks');
+    WHEN 'matching' THEN
+      NEW.is_correct := answers_match(
+        answer_json(NEW.answer),
+        (SELECT jsonb_agg(p.pair->'definition' ORDER BY p.i)
+         FROM jsonb_array_elements(q.payload->'pairs') WITH ORDINALITY AS p(pair, i))
+      );
+    WHEN 'ordering' THEN
+      NEW.is_correct := answers_match(answer_json(NEW.answer), q.payload->'items');
+    ELSE
+      -- Short answers are graded by the grade-answer function
+      NULL;
+  END CASE;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,15 @@
+-- Documents queued for re-indexing count as stalled only once they've sat ten
+-- minutes, and were only started when their subject was opened. The app now
+-- starts stalled documents in every subject when their owner signs in; date
+-- these back so that happens on the very next sign-in.
+ALTER TABLE public.documents DISABLE TRIGGER documents_set_updated_at;
+
+UPDATE public.documents d
+SET updated_at = 'epoch'
+WHERE d.status = 'queued'
+  AND EXISTS (
+    SELECT 1 FROM public.chunks c
+    WHERE c.document_id = d.id AND c.embedding IS NULL
+  );
+
+ALTER TABLE public.documents ENABLE TRIGGER documents_set_updated_at;
@@ -0,0 +1,84 @@
+-- Quiz scoring: answers to every automatically gradable question type are
+-- scored in the database against the stored answer key.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(14);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('d4444444-4444-4444-8444-444444444444', 'dana@example.com');
+
+INSERT INTO public.subjects (id, name, owner_id) VALUES
+  ('5d000000-0000-4000-8000-000000000001', 'Chemistry', 'd4444444-4444-4444-8444-444444444444');
+
+INSERT INTO public.study_sets (id, subject_id, question_count) VALUES
+  ('5e000000-0000-4000-8000-000000000001', '5d000000-0000-4000-8000-000000000001', 6);
+
+INSERT INTO public.study_questions (id, study_set_id, subject_id, position, type, question, payload) VALUES
+  ('90000000-0000-4000-8000-000000000001', '5e000000-0000-4000-8000-000000000001', '5d000000-0000-4000-8000-000000000001',
+   0, 'mcq', 'Which is a noble gas?', '{"correctAnswer": "B"}'),
+  ('90000000-0000-4000-8000-000000000002', '5e000000-0000-4000-8000-000000000001', '5d000000-0000-4000-8000-000000000001',
+   1, 'true_false', 'Water boils at 100 °C at sea level.', '{"answer": true}'),
+  ('90000000-0000-4000-8000-000000000003', '5e000000-0000-4000-8000-000000000001', '5d000000-0000-4000-8000-000000000001',
+   2, 'cloze', 'Atoms of the same _____ have the same number of _____.', '{"blanks": ["element", "protons"]}'),
+  ('90000000-0000-4000-8000-000000000004', '5e000000-0000-4000-8000-000000000001', '5d000000-0000-4000-8000-000000000001',
+   3, 'matching', 'Match each term to its definition.',
+   '{"pairs": [{"term": "Anion", "definition": "Negative ion"}, {"term": "Cation", "definition": "Positive ion"}]}'),
+  ('90000000-0000-4000-8000-000000000005', '5e000000-0000-4000-8000-000000000001', '5d000000-0000-4000-8000-000000000001',
+   4, 'ordering', 'Order the states by energy.', '{"items": ["Solid", "Liquid", "Gas"]}'),
+  ('90000000-0000-4000-8000-000000000006', '5e000000-0000-4000-8000-000000000001', '5d000000-0000-4000-8000-000000000001',
+   5, 'short_answer', 'Why do ionic compounds conduct when molten?', '{"modelAnswer": "Their ions are free to move."}');
+
+CREATE TEMP VIEW scored AS
+SELECT a.run_id, q.type, a.is_correct
+FROM public.quiz_attempts a JOIN public.study_questions q ON q.id = a.question_id;
+GRANT SELECT ON scored TO authenticated;
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "d4444444-4444-4444-8444-444444444444", "role": "authenticated"}', true);
+
+-- One run with every answer right, one with every answer wrong
+INSERT INTO public.quiz_attempts (run_id, study_set_id, subject_id, question_id, answer)
+SELECT run_id::UUID, '5e000000-0000-4000-8000-000000000001', '5d000000-0000-4000-8000-000000000001', question_id::UUID, answer
+FROM (VALUES
+  ('0a000000-0000-4000-8000-000000000001', '90000000-0000-4000-8000-000000000001', 'B'),
+  ('0a000000-0000-4000-8000-000000000001', '90000000-0000-4000-8000-000000000002', 'true'),
+  ('0a000000-0000-4000-8000-000000000001', '90000000-0000-4000-8000-000000000003', '["Element", "  protons "]'),
+  ('0a000000-0000-4000-8000-000000000001', '90000000-0000-4000-8000-000000000004', '["Negative ion", "Positive ion"]'),
+  ('0a000000-0000-4000-8000-000000000001', '90000000-0000-4000-8000-000000000005', '["Solid", "Liquid", "Gas"]'),
+  ('0a000000-0000-4000-8000-000000000001', '90000000-0000-4000-8000-000000000006', 'The ions can move.'),
+  ('0b000000-0000-4000-8000-000000000002', '90000000-0000-4000-8000-000000000001', 'A'),
+  ('0b000000-0000-4000-8000-000000000002', '90000000-0000-4000-8000-000000000002', 'false'),
+  ('0b000000-0000-4000-8000-000000000002', '90000000-0000-4000-8000-000000000003', '["element"]'),
+  ('0b000000-0000-4000-8000-000000000002', '90000000-0000-4000-8000-000000000004', '["Positive ion", "Negative ion"]'),
+  ('0b000000-0000-4000-8000-000000000002', '90000000-0000-4000-8000-000000000005', '["Gas", "Liquid", "Solid"]'),
+  ('0c000000-0000-4000-8000-000000000003', '90000000-0000-4000-8000-000000000003', 'element, protons'),
+  ('0c000000-0000-4000-8000-000000000003', '90000000-0000-4000-8000-000000000005', '["Solid", "Liquid"')
+) AS a(run_id, question_id, answer);
+
+SELECT is((SELECT is_correct FROM scored WHERE run_id = '0a000000-0000-4000-8000-000000000001' AND type = 'mcq'), true, 'A correct MCQ answer scores');
+SELECT is((SELECT is_correct FROM scored WHERE run_id = '0a000000-0000-4000-8000-000000000001' AND type = 'true_false'), true, 'A correct true/false answer scores');
+SELECT is((SELECT is_correct FROM scored WHERE run_id = '0a000000-0000-4000-8000-000000000001' AND type = 'cloze'), true, 'Cloze blanks match regardless of case and spacing');
+SELECT is((SELECT is_correct FROM scored WHERE run_id = '0a000000-0000-4000-8000-000000000001' AND type = 'matching'), true, 'A correct matching scores');
+SELECT is((SELECT is_correct FROM scored WHERE run_id = '0a000000-0000-4000-8000-000000000001' AND type = 'ordering'), true, 'A correct ordering scores');
+SELECT is((SELECT is_correct FROM scored WHERE run_id = '0a000000-0000-4000-8000-000000000001' AND type = 'short_answer'), NULL::BOOLEAN, 'Short answers are left for the grader');
+
+SELECT is((SELECT is_correct FROM scored WHERE run_id = '0b000000-0000-4000-8000-000000000002' AND type = 'mcq'), false, 'A wrong MCQ answer does not score');
+SELECT is((SELECT is_correct FROM scored WHERE run_id = '0b000000-0000-4000-8000-000000000002' AND type = 'true_false'), false, 'A wrong true/false answer does not score');
+SELECT is((SELECT is_correct FROM scored WHERE run_id = '0b000000-0000-4000-8000-000000000002' AND type = 'cloze'), false, 'A cloze answer missing a blank does not score');
+SELECT is((SELECT is_correct FROM scored WHERE run_id = '0b000000-0000-4000-8000-000000000002' AND type = 'matching'), false, 'A wrong matching does not score');
+SELECT is((SELECT is_correct FROM scored WHERE run_id = '0b000000-0000-4000-8000-000000000002' AND type = 'ordering'), false, 'A wrong ordering does not score');
+
+SELECT is((SELECT is_correct FROM scored WHERE run_id = '0c000000-0000-4000-8000-000000000003' AND type = 'cloze'), false, 'A cloze answer that is not JSON is saved as wrong');
+SELECT is((SELECT is_correct FROM scored WHERE run_id = '0c000000-0000-4000-8000-000000000003' AND type = 'ordering'), false, 'A truncated JSON ordering is saved as wrong');
+
+SELECT throws_ok(
+  $$ INSERT INTO public.study_questions (study_set_id, subject_id, position, type, question)
+     VALUES ('5e000000-0000-4000-8000-000000000001', '5d000000-0000-4000-8000-000000000001', 9, 'essay', 'Discuss.') $$,
+  '23514', NULL,
+  'Unknown question types are refused'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
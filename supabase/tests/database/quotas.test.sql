@@ -0,0 +1,116 @@
+-- Quotas: the subject cap and per-user document, storage and chunk limits
+-- hold for direct inserts and uploads, not just in the app.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(13);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('c3333333-3333-4333-8333-333333333333', 'carol@example.com');
+
+SELECT is(
+  (SELECT max_subjects FROM public.user_quotas WHERE user_id = 'c3333333-3333-4333-8333-333333333333'),
+  3,
+  'New users get the default quota'
+);
+
+-- Small limits keep the test fast
+UPDATE public.user_quotas
+SET max_documents = 2, max_file_bytes = 1000, max_total_bytes = 1500, max_chunks = 2
+WHERE user_id = 'c3333333-3333-4333-8333-333333333333';
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "c3333333-3333-4333-8333-333333333333", "role": "authenticated"}', true);
+
+INSERT INTO public.subjects (id, name) VALUES
+  ('5c000000-0000-4000-8000-000000000001', 'Physics'),
+  ('5c000000-0000-4000-8000-000000000002', 'History'),
+  ('5c000000-0000-4000-8000-000000000003', 'Art');
+
+SELECT throws_ok(
+  $$ INSERT INTO public.subjects (name) VALUES ('Music') $$,
+  'AMN01', NULL,
+  'A fourth subject is refused'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.check_upload_quota('5c000000-0000-4000-8000-000000000001', 5000) $$,
+  'AMN03', NULL,
+  'check_upload_quota refuses a file over the size limit'
+);
+SELECT lives_ok(
+  $$ SELECT public.check_upload_quota('5c000000-0000-4000-8000-000000000001', 800) $$,
+  'check_upload_quota accepts a file that fits'
+);
+
+-- Documents count the uploaded file's real size, whatever the client reports
+INSERT INTO storage.objects (bucket_id, name, metadata) VALUES
+  ('documents', 'c3333333-3333-4333-8333-333333333333/a.md', '{"size": 800}');
+INSERT INTO public.documents (id, subject_id, filename, storage_path, file_size) VALUES
+  ('dc000000-0000-4000-8000-000000000001', '5c000000-0000-4000-8000-000000000001', 'a.md',
+   'c3333333-3333-4333-8333-333333333333/a.md', 0);
+SELECT is(
+  (SELECT file_size FROM public.documents WHERE id = 'dc000000-0000-4000-8000-000000000001'),
+  800::BIGINT,
+  'A document is counted at its stored size'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.documents (subject_id, filename, storage_path, file_size)
+     VALUES ('5c000000-0000-4000-8000-000000000002', 'b.md', 'c3333333-3333-4333-8333-333333333333/b.md', 0) $$,
+  '23503', NULL,
+  'A document whose file was never uploaded is refused'
+);
+
+-- Uploads straight to storage are held to the same limits
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name, metadata)
+     VALUES ('documents', 'c3333333-3333-4333-8333-333333333333/big.pdf', '{"size": 5000}') $$,
+  'AMN03', NULL,
+  'An upload over the size limit is refused'
+);
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name, metadata)
+     VALUES ('documents', 'c3333333-3333-4333-8333-333333333333/b.md', '{"size": 800}') $$,
+  'AMN04', NULL,
+  'An upload that would go over total storage is refused'
+);
+
+INSERT INTO storage.objects (bucket_id, name, metadata) VALUES
+  ('documents', 'c3333333-3333-4333-8333-333333333333/c.md', '{"size": 100}');
+
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name, metadata)
+     VALUES ('documents', 'c3333333-3333-4333-8333-333333333333/d.md', '{"size": 10}') $$,
+  'AMN02', NULL,
+  'Files uploaded without a document still count toward the file limit'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.chunks (document_id, subject_id, content) VALUES
+       ('dc000000-0000-4000-8000-000000000001', '5c000000-0000-4000-8000-000000000001', 'one'),
+       ('dc000000-0000-4000-8000-000000000001', '5c000000-0000-4000-8000-000000000001', 'two'),
+       ('dc000000-0000-4000-8000-000000000001', '5c000000-0000-4000-8000-000000000001', 'three') $$,
+  'AMN05', NULL,
+  'Chunks over the limit are refused'
+);
+SELECT lives_ok(
+  $$ INSERT INTO public.chunks (document_id, subject_id, content) VALUES
+       ('dc000000-0000-4000-8000-000000000001', '5c000000-0000-4000-8000-000000000001', 'one'),
+       ('dc000000-0000-4000-8000-000000000001', '5c000000-0000-4000-8000-000000000001', 'two') $$,
+  'Chunks within the limit are accepted'
+);
+
+SELECT is_empty(
+  $$ UPDATE public.user_quotas SET max_subjects = 10 RETURNING user_id $$,
+  'Users cannot raise their own limits'
+);
+SELECT results_eq(
+  $$ SELECT max_subjects FROM public.user_quotas $$,
+  ARRAY[3],
+  'Users can read their own quota'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
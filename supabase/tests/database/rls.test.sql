@@ -0,0 +1,134 @@
+-- Row-level security: one user can't read, change or delete another user's
+-- subjects, documents, chunks, chat history or stored files.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(24);
+
+-- Alice owns a subject with one document, chunk, message and file; Bob owns
+-- nothing yet. An anonymous session left one unclaimed subject behind.
+INSERT INTO auth.users (id, email) VALUES
+  ('a1111111-1111-4111-8111-111111111111', 'alice@example.com'),
+  ('b2222222-2222-4222-8222-222222222222', 'bob@example.com');
+
+INSERT INTO public.subjects (id, name, owner_id, session_id) VALUES
+  ('5a000000-0000-4000-8000-000000000001', 'Biology', 'a1111111-1111-4111-8111-111111111111', NULL),
+  ('5a000000-0000-4000-8000-000000000002', 'Legacy', NULL, 'legacy-session');
+
+INSERT INTO storage.objects (bucket_id, name) VALUES
+  ('documents', 'a1111111-1111-4111-8111-111111111111/5a000000-0000-4000-8000-000000000001/cells.md'),
+  ('documents', 'legacy-session/5a000000-0000-4000-8000-000000000002/old.md');
+
+INSERT INTO public.documents (id, subject_id, filename, storage_path) VALUES
+  ('d0000000-0000-4000-8000-000000000001', '5a000000-0000-4000-8000-000000000001', 'cells.md',
+   'a1111111-1111-4111-8111-111111111111/5a000000-0000-4000-8000-000000000001/cells.md'),
+  ('d0000000-0000-4000-8000-000000000002', '5a000000-0000-4000-8000-000000000002', 'old.md',
+   'legacy-session/5a000000-0000-4000-8000-000000000002/old.md');
+
+INSERT INTO public.chunks (document_id, subject_id, content) VALUES
+  ('d0000000-0000-4000-8000-000000000001', '5a000000-0000-4000-8000-000000000001', 'Mitochondria make ATP.');
+
+INSERT INTO public.chat_messages (subject_id, role, content) VALUES
+  ('5a000000-0000-4000-8000-000000000001', 'user', 'What makes ATP?');
+
+-- Anonymous clients see nothing
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT is_empty($$ SELECT id FROM public.subjects $$, 'anon cannot read subjects');
+SELECT is_empty($$ SELECT id FROM public.documents $$, 'anon cannot read documents');
+SELECT is_empty($$ SELECT id FROM storage.objects WHERE bucket_id = 'documents' $$, 'anon cannot list files');
+
+-- Bob
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "b2222222-2222-4222-8222-222222222222", "role": "authenticated"}', true);
+
+SELECT is_empty($$ SELECT id FROM public.subjects $$, 'Bob cannot read Alice''s or unclaimed subjects');
+SELECT is_empty($$ SELECT id FROM public.documents $$, 'Bob cannot read Alice''s documents');
+SELECT is_empty($$ SELECT id FROM public.chunks $$, 'Bob cannot read Alice''s chunks');
+SELECT is_empty($$ SELECT id FROM public.chat_messages $$, 'Bob cannot read Alice''s chat history');
+SELECT is_empty($$ SELECT id FROM storage.objects WHERE bucket_id = 'documents' $$, 'Bob cannot list Alice''s files');
+
+SELECT is_empty(
+  $$ UPDATE public.subjects SET name = 'Mine now' WHERE id = '5a000000-0000-4000-8000-000000000001' RETURNING id $$,
+  'Bob cannot rename Alice''s subject'
+);
+SELECT is_empty(
+  $$ UPDATE public.documents SET filename = 'x.md' WHERE id = 'd0000000-0000-4000-8000-000000000001' RETURNING id $$,
+  'Bob cannot rename Alice''s document'
+);
+SELECT is_empty(
+  $$ DELETE FROM public.subjects WHERE id = '5a000000-0000-4000-8000-000000000001' RETURNING id $$,
+  'Bob cannot delete Alice''s subject'
+);
+SELECT is_empty(
+  $$ DELETE FROM public.chunks WHERE subject_id = '5a000000-0000-4000-8000-000000000001' RETURNING id $$,
+  'Bob cannot delete Alice''s chunks'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.subjects (name, owner_id) VALUES ('Stolen', 'a1111111-1111-4111-8111-111111111111') $$,
+  '42501', NULL,
+  'Bob cannot create a subject for Alice'
+);
+SELECT lives_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name)
+     VALUES ('documents', 'b2222222-2222-4222-8222-222222222222/5a000000-0000-4000-8000-000000000003/notes.md') $$,
+  'Bob can upload into his own folder'
+);
+-- Even with a file of his own uploaded
+SELECT throws_ok(
+  $$ INSERT INTO public.documents (subject_id, filename, storage_path)
+     VALUES ('5a000000-0000-4000-8000-000000000001', 'notes.md',
+             'b2222222-2222-4222-8222-222222222222/5a000000-0000-4000-8000-000000000003/notes.md') $$,
+  '42501', NULL,
+  'Bob cannot add a document to Alice''s subject'
+);
+SELECT throws_ok(
+  $$ INSERT INTO public.chat_messages (subject_id, role, content)
+     VALUES ('5a000000-0000-4000-8000-000000000001', 'user', 'hi') $$,
+  '42501', NULL,
+  'Bob cannot write to Alice''s chat history'
+);
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name)
+     VALUES ('documents', 'a1111111-1111-4111-8111-111111111111/5a000000-0000-4000-8000-000000000001/evil.md') $$,
+  '42501', NULL,
+  'Bob cannot upload into Alice''s folder'
+);
+
+-- Bob's own subject can't be used to attach chunks to Alice's document
+INSERT INTO public.subjects (id, name) VALUES ('5a000000-0000-4000-8000-000000000003', 'Chemistry');
+SELECT throws_ok(
+  $$ INSERT INTO public.chunks (document_id, subject_id, content)
+     VALUES ('d0000000-0000-4000-8000-000000000001', '5a000000-0000-4000-8000-000000000003', 'injected') $$,
+  '42501', NULL,
+  'Bob cannot attach chunks to Alice''s document'
+);
+
+-- Claiming the anonymous session's data makes it, and its legacy file, Bob's
+SELECT is(public.claim_session_data('legacy-session'), 1, 'Bob claims the unclaimed subject');
+SELECT results_eq(
+  $$ SELECT name FROM public.subjects ORDER BY name $$,
+  ARRAY['Chemistry', 'Legacy'],
+  'Bob sees his own and claimed subjects only'
+);
+SELECT results_eq(
+  $$ SELECT name FROM storage.objects WHERE bucket_id = 'documents' ORDER BY name $$,
+  ARRAY[
+    'b2222222-2222-4222-8222-222222222222/5a000000-0000-4000-8000-000000000003/notes.md',
+    'legacy-session/5a000000-0000-4000-8000-000000000002/old.md'
+  ],
+  'Bob reaches the claimed legacy file through its document'
+);
+
+-- Alice still has everything Bob tried to touch
+SELECT set_config('request.jwt.claims', '{"sub": "a1111111-1111-4111-8111-111111111111", "role": "authenticated"}', true);
+
+SELECT results_eq($$ SELECT name FROM public.subjects $$, ARRAY['Biology'], 'Alice''s subject is intact');
+SELECT results_eq($$ SELECT filename FROM public.documents $$, ARRAY['cells.md'], 'Alice''s document is intact');
+SELECT results_eq($$ SELECT count(*) FROM public.chunks $$, ARRAY[1::BIGINT], 'Alice''s chunks are intact');
+
+SELECT * FROM finish();
+ROLLBACK;